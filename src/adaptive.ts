@@ -0,0 +1,148 @@
+import type {
+  AdaptiveContext,
+  AdaptivePolicy,
+  CompressionEncoding,
+  CompressionLoad,
+} from './types'
+import { negotiateEncoding } from './negotiation'
+
+const KiB = 1024
+const MiB = 1024 * KiB
+
+/**
+ * How the adaptive policy compresses a response, `false` to send it uncompressed.
+ */
+export type AdaptiveDecision =
+  { encoding: CompressionEncoding; level?: number } | false
+
+/**
+ * Tracks the event loop delay and the number of compressions in flight.
+ */
+export type LoadMonitor = {
+  load: () => CompressionLoad
+
+  /**
+   * Counts a compression as in flight until it settles.
+   */
+  track: <T>(compression: Promise<T>) => Promise<T>
+}
+
+/**
+ * Checks whether a response may be stored by shared caches, making an expensive
+ * compression worth it.
+ *
+ * @param {Response} response - The response to check.
+ * @returns {boolean} `true` if the response is cacheable.
+ */
+export const isCacheable = (response: Response): boolean => {
+  const cacheControl = (
+    response.headers.get('Cache-Control') ?? ''
+  ).toLowerCase()
+
+  if (/(?:^|,)\s*(?:no-store|private)\s*(?:,|$)/u.test(cacheControl)) {
+    return false
+  }
+
+  return (
+    /(?:^|,)\s*(?:public|immutable)\s*(?:,|$)/u.test(cacheControl) ||
+    /(?:^|,)\s*(?:s-maxage|max-age)=[1-9]/u.test(cacheControl)
+  )
+}
+
+/**
+ * The default compression levels: the strongest brotli quality for small
+ * cacheable bodies, fast levels for large or streamed ones.
+ *
+ * @param {AdaptiveContext} context - The response being compressed.
+ * @returns {number | undefined} The level, `undefined` to keep the configured one.
+ */
+export const defaultAdaptiveLevel = ({
+  encoding,
+  size,
+  cacheable,
+}: AdaptiveContext): number | undefined => {
+  const large = size === undefined || size >= MiB
+
+  if (encoding === 'br' && cacheable && !large && size <= 64 * KiB) {
+    return 11
+  }
+
+  if (encoding === 'br' || encoding === 'gzip' || encoding === 'deflate') {
+    return large ? 4 : undefined
+  }
+
+  return undefined
+}
+
+/**
+ * Creates a monitor measuring the event loop delay with an unref'd timer.
+ *
+ * @param {number} [interval=500] - The sampling interval in milliseconds.
+ * @returns {LoadMonitor} The load monitor.
+ */
+export const createLoadMonitor = (interval: number = 500): LoadMonitor => {
+  let eventLoopLag = 0
+  let inFlight = 0
+  let expected = performance.now() + interval
+
+  // A timer firing late means the event loop was busy
+  setInterval(() => {
+    const now = performance.now()
+    eventLoopLag = Math.max(0, now - expected)
+    expected = now + interval
+  }, interval).unref()
+
+  return {
+    load: () => ({ eventLoopLag, inFlight }),
+    track: async (compression) => {
+      inFlight++
+      try {
+        return await compression
+      } finally {
+        inFlight--
+      }
+    },
+  }
+}
+
+/**
+ * Creates the function deciding how a response is compressed from an adaptive policy.
+ *
+ * The saturated fallback is only negotiated among the configured `encodings`.
+ *
+ * @param {AdaptivePolicy} policy - The adaptive policy.
+ * @returns {(context: AdaptiveContext, acceptEncoding: string | null, encodings: CompressionEncoding[]) => AdaptiveDecision} The decision function.
+ */
+export const createAdaptivePolicy = (
+  policy: AdaptivePolicy,
+): ((
+  context: AdaptiveContext,
+  acceptEncoding: string | null,
+  encodings: CompressionEncoding[],
+) => AdaptiveDecision) => {
+  const level = policy.level ?? defaultAdaptiveLevel
+  const maxEventLoopLag = policy.maxEventLoopLag ?? 100
+  const maxInFlight = policy.maxInFlight ?? Infinity
+  const saturated = policy.saturated ?? { encoding: 'gzip', level: 1 }
+
+  return (context, acceptEncoding, encodings) => {
+    const { eventLoopLag, inFlight } = context.load
+
+    if (eventLoopLag <= maxEventLoopLag && inFlight < maxInFlight) {
+      return { encoding: context.encoding, level: level(context) }
+    }
+
+    if (!saturated) {
+      return false
+    }
+
+    // The fallback encoding must still be configured and acceptable to the client
+    const encoding = negotiateEncoding(
+      acceptEncoding,
+      encodings.filter((candidate) => candidate === saturated.encoding),
+    )
+    return encoding === saturated.encoding
+      ? { encoding, level: saturated.level }
+      : false
+  }
+}
@@ -0,0 +1,93 @@
+import { randomBytes, randomInt, timingSafeEqual } from 'node:crypto'
+import { mediaTypeOf } from './content-type'
+
+const whitespace = [0x20, 0x09, 0x0a, 0x0d]
+
+/**
+ * Creates random-length padding appended to HTML and JSON bodies, so the length
+ * of their compressed representation no longer tells how well secrets matched
+ * reflected input.
+ *
+ * HTML bodies get a comment of random characters and JSON bodies random
+ * whitespace, which both leave the document meaning untouched.
+ *
+ * @see https://www.breachattack.com
+ *
+ * @param {string} contentType - The `Content-Type` of the response.
+ * @param {number} maxLength - The maximum byte size of the padding content.
+ * @returns {Uint8Array | undefined} The padding, `undefined` for other content types.
+ */
+export const createPadding = (
+  contentType: string,
+  maxLength: number,
+): Uint8Array | undefined => {
+  const mediaType = mediaTypeOf(contentType)
+  const length = randomInt(maxLength + 1)
+
+  if (mediaType === 'text/html' || mediaType === 'application/xhtml+xml') {
+    const characters = randomBytes(length)
+      .toString('base64url')
+      .slice(0, length)
+    return new TextEncoder().encode(`<!--${characters}-->`)
+  }
+
+  if (mediaType === 'application/json' || mediaType.endsWith('+json')) {
+    // Random whitespace keeps 2 bits of entropy per byte once compressed
+    return randomBytes(length).map((byte) => whitespace[byte & 3] ?? 0x20)
+  }
+
+  return undefined
+}
+
+/**
+ * Masks a secret such as a CSRF token with a random one-time pad, so it
+ * differs in every response and can't be guessed byte by byte through the
+ * compressed length.
+ *
+ * @param {string | Uint8Array} secret - The secret to mask.
+ * @returns {string} The pad followed by the masked secret, base64url encoded.
+ */
+export const maskSecret = (secret: string | Uint8Array): string => {
+  const bytes = Buffer.from(secret)
+  const pad = randomBytes(bytes.byteLength)
+  const masked = bytes.map((byte, index) => byte ^ (pad[index] ?? 0))
+  return Buffer.concat([pad, masked]).toString('base64url')
+}
+
+/**
+ * Recovers a secret masked with `maskSecret`.
+ *
+ * @param {string} token - The masked secret.
+ * @returns {Buffer | undefined} The secret, `undefined` when the token is malformed.
+ */
+export const unmaskSecret = (token: string): Buffer | undefined => {
+  const bytes = Buffer.from(token, 'base64url')
+  if (bytes.byteLength < 2 || bytes.byteLength % 2 !== 0) {
+    return undefined
+  }
+
+  const length = bytes.byteLength / 2
+  return Buffer.from(
+    bytes.subarray(length).map((byte, index) => byte ^ (bytes[index] ?? 0)),
+  )
+}
+
+/**
+ * Checks in constant time whether a masked token holds the given secret.
+ *
+ * @param {string} token - The masked secret, e.g. sent back by a form.
+ * @param {string | Uint8Array} secret - The expected secret.
+ * @returns {boolean} `true` if the token holds the secret.
+ */
+export const matchesMaskedSecret = (
+  token: string,
+  secret: string | Uint8Array,
+): boolean => {
+  const unmasked = unmaskSecret(token)
+  const expected = Buffer.from(secret)
+  return (
+    unmasked !== undefined &&
+    unmasked.byteLength === expected.byteLength &&
+    timingSafeEqual(unmasked, expected)
+  )
+}
@@ -1,59 +1,253 @@
-type CacheKey = string | number | bigint
+import type { CacheKey, CacheStore, CachedValue } from './types'
+
+type CacheEntry<T> = {
+  value: T
+  size: number
+  staleAt: number
+  expiresAt: number
+}
+
+export type MemCacheOptions<T> = {
+  /**
+   * The maximum number of entries kept in the cache.
+   *
+   * @default 1000
+   */
+  maxEntries?: number
+
+  /**
+   * The maximum total byte size of the entries kept in the cache.
+   *
+   * @default 52428800 (50 MiB)
+   */
+  maxSize?: number
+
+  /**
+   * Computes the byte size of a value, defaults to its `byteLength`.
+   */
+  sizeOf?: (value: T) => number
+}
+
+export type MemCacheStats = {
+  /**
+   * The number of lookups that found a value.
+   */
+  hits: number
+
+  /**
+   * The number of lookups that found no value or an expired one.
+   */
+  misses: number
+
+  /**
+   * The number of entries removed to make room for new ones.
+   */
+  evictions: number
+
+  /**
+   * The number of entries in the cache.
+   */
+  entries: number
+
+  /**
+   * The total byte size of the entries in the cache.
+   */
+  bytes: number
+}
 
 /**
- * A simple in-memory cache
+ * A simple in-memory LRU cache
  *
+ * The cache is bounded by entry count and total byte size, the least recently used
+ * entries are evicted first. Expired entries are removed lazily when accessed.
  */
-class MemCache {
-  constructor(private cache: Map<CacheKey, any> = new Map()) {}
+export class MemCache<T = any> implements CacheStore<T> {
+  private cache: Map<CacheKey, CacheEntry<T>> = new Map()
+  private totalSize = 0
+  private hits = 0
+  private misses = 0
+  private evictions = 0
+  private readonly maxEntries: number
+  private readonly maxSize: number
+  private readonly sizeOf: (value: T) => number
+
+  constructor(options?: MemCacheOptions<T>) {
+    this.maxEntries = options?.maxEntries ?? 1000
+    this.maxSize = options?.maxSize ?? 50 * 1024 * 1024 // 50 MiB
+    this.sizeOf = options?.sizeOf ?? ((value: any) => value?.byteLength ?? 0)
+  }
+
+  /**
+   * The number of entries in the cache, including expired entries not yet removed.
+   */
+  get size(): number {
+    return this.cache.size
+  }
+
+  /**
+   * The total byte size of the entries in the cache.
+   */
+  get byteSize(): number {
+    return this.totalSize
+  }
+
+  /**
+   * The lookup and eviction counters of the cache, e.g. to compute its hit rate.
+   */
+  get stats(): MemCacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      entries: this.cache.size,
+      bytes: this.totalSize,
+    }
+  }
 
   /**
    * Sets a value in the cache with the specified key and optional time-to-live (TTL).
    *
+   * Values larger than the cache size limit are not stored.
+   *
    * @param {CacheKey} key - The key to set the value for.
-   * @param {any} value - The value to set in the cache.
-   * @param {number} [TTL=Number.MAX_SAFE_INTEGER] - The time-to-live (in seconds) for the value in the cache.
+   * @param {T} value - The value to set in the cache.
+   * @param {number} [TTL=Infinity] - The time-to-live (in seconds) for the value in the cache.
+   * @param {number} [staleTTL=0] - How long (in seconds) the value is kept after its TTL, only returned by `getStale`.
    * @return {void} This function does not return anything.
    */
   set(
     key: CacheKey,
-    value: any,
-    TTL: number = Number.MAX_SAFE_INTEGER,
+    value: T,
+    TTL: number = Infinity,
+    staleTTL: number = 0,
   ): void {
-    this.cache.set(key, value)
-    setTimeout(() => this.cache.delete(key), TTL * 1000)
+    this.delete(key)
+
+    const size = this.sizeOf(value)
+    if (size > this.maxSize) {
+      return
+    }
+
+    const staleAt = Date.now() + TTL * 1000
+    this.cache.set(key, {
+      value,
+      size,
+      staleAt,
+      expiresAt: staleAt + staleTTL * 1000,
+    })
+    this.totalSize += size
+
+    // Map preserves insertion order, the first key is the least recently used
+    for (const oldestKey of this.cache.keys()) {
+      if (
+        this.cache.size <= this.maxEntries &&
+        this.totalSize <= this.maxSize
+      ) {
+        break
+      }
+      this.delete(oldestKey)
+      this.evictions++
+    }
   }
 
   /**
    * Gets a value from the cache with the specified key.
    *
    * @param {CacheKey} key - The key to get the value from the cache.
-   * @return {any} The value from the cache if it exists, otherwise `undefined`.
+   * @return {T | undefined} The value from the cache if it exists, otherwise `undefined`.
+   */
+  get(key: CacheKey): T | undefined {
+    const entry = this.entry(key)
+    if (!entry || entry.staleAt <= Date.now()) {
+      this.misses++
+      return undefined
+    }
+
+    this.hits++
+    this.touch(key, entry)
+    return entry.value
+  }
+
+  /**
+   * Gets a value from the cache, including a value past its TTL but still within
+   * its stale period.
+   *
+   * @param {CacheKey} key - The key to get the value from the cache.
+   * @return {CachedValue<T> | undefined} The value and whether it is stale, `undefined` if missing or expired.
    */
-  get(key: CacheKey) {
-    return this.cache.get(key)
+  getStale(key: CacheKey): CachedValue<T> | undefined {
+    const entry = this.entry(key)
+    if (!entry) {
+      this.misses++
+      return undefined
+    }
+
+    this.hits++
+    this.touch(key, entry)
+    return { value: entry.value, stale: entry.staleAt <= Date.now() }
   }
 
   /**
-   * Checks if a value exists in the cache with the specified key.
+   * Checks if a fresh value exists in the cache with the specified key.
    *
    * @param {CacheKey} key - The key to check for in the cache.
-   * @return {boolean} `true` if the value exists in the cache, `false` otherwise.
+   * @return {boolean} `true` if the value exists in the cache and is not stale, `false` otherwise.
    */
   has(key: CacheKey): boolean {
-    return this.cache.has(key)
+    const entry = this.entry(key)
+    return entry !== undefined && entry.staleAt > Date.now()
   }
 
   /**
    * Removes a value from the cache with the specified key.
    *
+   * @param {CacheKey} key - The key to remove from the cache.
+   * @return {boolean} `true` if a value was removed, `false` otherwise.
+   */
+  delete(key: CacheKey): boolean {
+    const entry = this.cache.get(key)
+    if (!entry) {
+      return false
+    }
+
+    this.totalSize -= entry.size
+    return this.cache.delete(key)
+  }
+
+  /**
+   * Removes all values from the cache.
+   *
    * @return {void} This function does not return anything.
    */
   clear(): void {
     this.cache.clear()
+    this.totalSize = 0
+  }
+
+  /**
+   * Moves an entry to the end to mark it as most recently used.
+   *
+   * @param {CacheKey} key - The key of the entry.
+   * @param {CacheEntry<T>} entry - The entry.
+   */
+  private touch(key: CacheKey, entry: CacheEntry<T>): void {
+    this.cache.delete(key)
+    this.cache.set(key, entry)
   }
-}
 
-const memCache = new MemCache()
+  /**
+   * Gets a non-expired entry, removing it when expired.
+   *
+   * @param {CacheKey} key - The key of the entry.
+   * @return {CacheEntry<T> | undefined} The entry if it exists and is not expired.
+   */
+  private entry(key: CacheKey): CacheEntry<T> | undefined {
+    const entry = this.cache.get(key)
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.delete(key)
+      return undefined
+    }
 
-export default memCache
+    return entry
+  }
+}
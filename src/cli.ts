@@ -0,0 +1,214 @@
+#!/usr/bin/env node
+import { parseArgs } from 'node:util'
+import type { CompressionEncoding, PrecompressResult } from './types'
+import { isEncodingSupported } from './compression-stream'
+import { precompress } from './precompress'
+import { sidecarExtensions } from './static'
+
+const usage = `Usage: vafast-compress <directory> [options]
+
+Compresses the files of a directory into .br, .gz and .zst sidecar files.
+
+Options:
+  -e, --encodings <list>   Comma separated encodings to write (default: br,gzip)
+  -i, --include <glob>     Only compress files matching the glob, repeatable
+  -x, --exclude <glob>     Skip files matching the glob, repeatable
+  -t, --threshold <bytes>  Minimum file size to compress (default: 1024)
+  -c, --concurrency <n>    Number of files compressed in parallel
+      --incremental        Skip files older than their sidecar files
+      --manifest <file>    Skip files whose content and options match the manifest
+  -q, --quiet              Only print the summary
+  -h, --help               Show this help
+`
+
+/**
+ * Formats a byte size for humans.
+ *
+ * @param {number} bytes - The byte size.
+ * @returns {string} The formatted size.
+ */
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) {
+    return `${bytes} B`
+  }
+
+  const units = ['KiB', 'MiB', 'GiB']
+  let size = bytes / 1024
+  let unit = 0
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024
+    unit++
+  }
+
+  return `${size.toFixed(1)} ${units[unit]}`
+}
+
+/**
+ * Formats the savings of a compressed size over the original size.
+ *
+ * @param {number} size - The original byte size.
+ * @param {number} compressed - The compressed byte size.
+ * @returns {string} The formatted savings.
+ */
+const formatSavings = (size: number, compressed: number): string =>
+  `${formatBytes(compressed)} (-${(((size - compressed) / size) * 100).toFixed(1)}%)`
+
+/**
+ * Prints the size savings report of a precompression run.
+ *
+ * @param {PrecompressResult[]} results - The outcome for each file.
+ * @param {CompressionEncoding[]} encodings - The encodings written.
+ * @param {boolean} quiet - Whether to only print the summary.
+ */
+const report = (
+  results: PrecompressResult[],
+  encodings: CompressionEncoding[],
+  quiet: boolean,
+): void => {
+  const compressed = results.filter(({ unchanged }) => !unchanged)
+
+  if (!quiet) {
+    for (const { file, size, encodings: sizes } of compressed) {
+      const columns = encodings.map((encoding) => {
+        const encodedSize = sizes[encoding]
+        if (encodedSize === undefined) {
+          return `${encoding}: unchanged`
+        }
+        return encodedSize === null
+          ? `${encoding}: not smaller, skipped`
+          : `${encoding}: ${formatSavings(size, encodedSize)}`
+      })
+      console.log(`${file}  ${formatBytes(size)}  ${columns.join('  ')}`)
+    }
+  }
+
+  const totalSize = compressed.reduce((total, { size }) => total + size, 0)
+  console.log(
+    `\n${compressed.length} file(s) compressed, ${results.length - compressed.length} unchanged, ${formatBytes(totalSize)} in total`,
+  )
+
+  for (const encoding of encodings) {
+    let original = 0
+    let encoded = 0
+    for (const { size, encodings: sizes } of compressed) {
+      const encodedSize = sizes[encoding]
+      if (typeof encodedSize === 'number') {
+        original += size
+        encoded += encodedSize
+      }
+    }
+
+    if (original > 0) {
+      console.log(
+        `${encoding}: ${formatBytes(original)} -> ${formatSavings(original, encoded)}`,
+      )
+    }
+  }
+}
+
+/**
+ * Parses an integer option, rejecting anything but whole numbers of at least
+ * `min`.
+ *
+ * @param {string | undefined} value - The option value.
+ * @param {number} min - The smallest accepted value.
+ * @returns {number | undefined | null} The number, `undefined` when unset, `null` when invalid.
+ */
+const parseInteger = (
+  value: string | undefined,
+  min: number,
+): number | undefined | null => {
+  if (value === undefined) {
+    return undefined
+  }
+
+  const number = Number(value)
+  return /^\d+$/u.test(value) && number >= min ? number : null
+}
+
+/**
+ * Runs the command line interface.
+ *
+ * @param {string[]} args - The command line arguments, without the executable.
+ * @returns {Promise<number>} The exit code.
+ */
+export const main = async (args: string[]): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      encodings: { type: 'string', short: 'e', default: 'br,gzip' },
+      include: { type: 'string', short: 'i', multiple: true },
+      exclude: { type: 'string', short: 'x', multiple: true },
+      threshold: { type: 'string', short: 't' },
+      concurrency: { type: 'string', short: 'c' },
+      incremental: { type: 'boolean', default: false },
+      manifest: { type: 'string' },
+      quiet: { type: 'boolean', short: 'q', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  })
+
+  const [root] = positionals
+  if (values.help || !root) {
+    console.log(usage)
+    return values.help ? 0 : 1
+  }
+
+  const encodings = values.encodings
+    .split(',')
+    .map((encoding) => encoding.trim())
+    .filter(Boolean) as CompressionEncoding[]
+
+  for (const encoding of encodings) {
+    if (!sidecarExtensions[encoding] || !isEncodingSupported(encoding)) {
+      console.error(`Unsupported encoding: ${encoding}`)
+      return 1
+    }
+  }
+
+  const threshold = parseInteger(values.threshold, 0)
+  if (threshold === null) {
+    console.error(
+      `Invalid threshold: ${values.threshold}, expected a non-negative integer\n\n${usage}`,
+    )
+    return 1
+  }
+
+  const concurrency = parseInteger(values.concurrency, 1)
+  if (concurrency === null) {
+    console.error(
+      `Invalid concurrency: ${values.concurrency}, expected a positive integer\n\n${usage}`,
+    )
+    return 1
+  }
+
+  const results = await precompress({
+    root,
+    encodings,
+    include: values.include,
+    exclude: values.exclude,
+    threshold,
+    concurrency,
+    incremental: values.manifest
+      ? 'manifest'
+      : values.incremental
+        ? 'mtime'
+        : false,
+    manifest: values.manifest,
+  })
+
+  report(results, encodings, values.quiet)
+  return 0
+}
+
+// `require` only exists in the CommonJS build, the ES module build is not an entry point
+if (typeof require !== 'undefined' && require.main === module) {
+  main(process.argv.slice(2)).then(
+    (code) => process.exit(code),
+    (error: Error) => {
+      console.error(error.message)
+      process.exit(1)
+    },
+  )
+}
@@ -1,90 +1,434 @@
 import zlib from 'node:zlib'
 import { Transform } from 'stream'
-import type { CompressionEncoding, CompressionOptions } from './types'
+import type {
+  CompressionEncoding,
+  CompressionFormat,
+  CompressionOptions,
+  DecompressionStreamOptions,
+  FlushStrategy,
+} from './types'
 
 /**
- * Creates a compression stream based on the specified encoding and options.
+ * Whether the runtime ships zstd support in `node:zlib` (Node.js >= 22.15).
+ */
+export const isZstdSupported =
+  typeof zlib.createZstdCompress === 'function' &&
+  typeof zlib.zstdCompressSync === 'function'
+
+/**
+ * Checks whether the given encoding can be produced by the current runtime.
+ *
+ * @param {CompressionEncoding} encoding - The compression encoding to check.
+ * @returns {boolean} `true` if the encoding is available, `false` otherwise.
+ */
+export const isEncodingSupported = (encoding: CompressionEncoding): boolean =>
+  encoding !== 'zstd' || isZstdSupported
+
+/**
+ * Resolves the zstd options, applying the default compression level.
+ *
+ * Must only be called when zstd is supported, as the zstd constants are missing otherwise.
  *
- * @param {CompressionEncoding} encoding - The compression encoding to use.
  * @param {CompressionOptions} [options] - The compression options.
- * @returns {{ readable: ReadableStream<Uint8Array>, writable: WritableStream<Uint8Array> }} The compression stream.
+ * @returns {zlib.ZstdOptions} The zstd options.
  */
-export const CompressionStream = (
-  encoding: CompressionEncoding,
+export const resolveZstdOptions = (
   options?: CompressionOptions,
-) => {
-  let handler: Transform
-
-  const zlibOptions: zlib.ZlibOptions = {
-    ...{
-      level: 6,
+): zlib.ZstdOptions => ({
+  ...{
+    params: {
+      [zlib.constants.ZSTD_c_compressionLevel]: 3,
     },
-    ...options?.zlibOptions,
+  },
+  ...options?.zstdOptions,
+})
+
+/**
+ * Resolves the brotli options, applying the default mode and quality beneath
+ * the given parameters.
+ *
+ * @param {CompressionOptions} [options] - The compression options.
+ * @returns {zlib.BrotliOptions} The brotli options.
+ */
+export const resolveBrotliOptions = (
+  options?: CompressionOptions,
+): zlib.BrotliOptions => ({
+  ...options?.brotliOptions,
+  params: {
+    [zlib.constants.BROTLI_PARAM_MODE]: zlib.constants.BROTLI_MODE_GENERIC,
+    [zlib.constants.BROTLI_PARAM_QUALITY]:
+      zlib.constants.BROTLI_DEFAULT_QUALITY,
+    ...options?.brotliOptions?.params,
+  },
+})
+
+/**
+ * Resolves the gzip and deflate options, applying the default level.
+ *
+ * @param {CompressionOptions} [options] - The compression options.
+ * @returns {zlib.ZlibOptions} The zlib options.
+ */
+export const resolveZlibOptions = (
+  options?: CompressionOptions,
+): zlib.ZlibOptions => ({
+  ...{
+    level: 6,
+  },
+  ...options?.zlibOptions,
+})
+
+/**
+ * The number of compressed bytes buffered before writes are paused.
+ */
+const highWaterMark = 16 * 1024
+
+const LF = 0x0a
+const CR = 0x0d
+
+/**
+ * Creates a scanner detecting Server-Sent Event boundaries (a blank line) across chunks.
+ *
+ * @returns {(chunk: Uint8Array) => boolean} Returns `true` when the chunk ends at least one event.
+ */
+const createEventScanner = (): ((chunk: Uint8Array) => boolean) => {
+  let atLineStart = false
+  let afterCR = false
+
+  return (chunk) => {
+    let boundary = false
+
+    for (const byte of chunk) {
+      if (byte === LF && afterCR) {
+        // The LF of a CRLF pair, the line end was already counted on CR
+        afterCR = false
+      } else if (byte === LF || byte === CR) {
+        boundary ||= atLineStart
+        atLineStart = true
+        afterCR = byte === CR
+      } else {
+        atLineStart = false
+        afterCR = false
+      }
+    }
+
+    return boundary
   }
-  const brotliOptions: zlib.BrotliOptions = {
-    ...{
-      params: {
-        [zlib.constants.BROTLI_PARAM_MODE]: zlib.constants.BROTLI_MODE_TEXT,
-        [zlib.constants.BROTLI_PARAM_QUALITY]:
-          zlib.constants.BROTLI_DEFAULT_QUALITY,
-      },
-    },
-    ...options?.brotliOptions,
+}
+
+/**
+ * Creates the Node.js compressor of a format.
+ *
+ * @param {CompressionFormat} format - The compression format.
+ * @param {CompressionOptions} [options] - The compression options.
+ * @returns {{ handler: Transform, flushKind: number }} The compressor and its flush operation.
+ */
+const createCompressor = (
+  format: CompressionFormat,
+  options?: CompressionOptions,
+): { handler: Transform; flushKind: number } => {
+  const zlibOptions = resolveZlibOptions(options)
+  const brotliOptions = resolveBrotliOptions(options)
+
+  switch (format) {
+    case 'br':
+      return {
+        handler: zlib.createBrotliCompress(brotliOptions),
+        flushKind: zlib.constants.BROTLI_OPERATION_FLUSH,
+      }
+    case 'gzip':
+      return {
+        handler: zlib.createGzip(zlibOptions),
+        flushKind: zlib.constants.Z_SYNC_FLUSH,
+      }
+    case 'deflate':
+      return {
+        handler: zlib.createDeflate(zlibOptions),
+        flushKind: zlib.constants.Z_SYNC_FLUSH,
+      }
+    case 'deflate-raw':
+      return {
+        handler: zlib.createDeflateRaw(zlibOptions),
+        flushKind: zlib.constants.Z_SYNC_FLUSH,
+      }
+    case 'zstd':
+      assertZstdSupported()
+      return {
+        handler: zlib.createZstdCompress(resolveZstdOptions(options)),
+        flushKind: zlib.constants.ZSTD_e_flush,
+      }
+    default:
+      throw new TypeError(`Unsupported compression format: '${format}'`)
   }
+}
 
-  if (encoding === 'br') {
-    handler = zlib.createBrotliCompress(brotliOptions)
-  } else if (encoding === 'gzip') {
-    handler = zlib.createGzip(zlibOptions)
-  } else if (encoding === 'deflate') {
-    handler = zlib.createDeflate(zlibOptions)
-  } else {
-    handler = new Transform({
-      /**
-       * Transforms the given chunk of data and calls the callback with the transformed data.
-       *
-       * @param {any} chunk - The chunk of data to be transformed.
-       * @param {any} _ - Unused parameter.
-       * @param {any} callback - The callback function to be called with the transformed data.
-       * @return {void}
-       */
-      transform(chunk: any, _: any, callback: any): void {
-        callback(null, chunk)
-      },
+/**
+ * Creates the Node.js decompressor of a format.
+ *
+ * @param {CompressionFormat} format - The compression format.
+ * @param {DecompressionStreamOptions} [options] - The decompression options.
+ * @returns {Transform} The decompressor.
+ */
+const createDecompressor = (
+  format: CompressionFormat,
+  options?: DecompressionStreamOptions,
+): Transform => {
+  switch (format) {
+    case 'br':
+      return zlib.createBrotliDecompress(options?.brotliOptions)
+    case 'gzip':
+      return zlib.createGunzip(options?.zlibOptions)
+    case 'deflate':
+      return zlib.createInflate(options?.zlibOptions)
+    case 'deflate-raw':
+      return zlib.createInflateRaw(options?.zlibOptions)
+    case 'zstd':
+      assertZstdSupported()
+      return zlib.createZstdDecompress(options?.zstdOptions)
+    default:
+      throw new TypeError(`Unsupported compression format: '${format}'`)
+  }
+}
+
+/**
+ * Throws when the runtime can't produce or decode zstd.
+ */
+const assertZstdSupported = (): void => {
+  if (!isZstdSupported) {
+    throw new TypeError(
+      'zstd compression is not supported by this runtime, zlib.createZstdCompress is missing',
+    )
+  }
+}
+
+/**
+ * Converts a chunk written to a stream into bytes, as any `BufferSource` is
+ * accepted by the web standard streams.
+ *
+ * @param {unknown} chunk - The written chunk.
+ * @returns {Uint8Array} The bytes of the chunk.
+ */
+const toBytes = (chunk: unknown): Uint8Array => {
+  if (chunk instanceof Uint8Array) {
+    return chunk
+  }
+  if (ArrayBuffer.isView(chunk)) {
+    return new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength)
+  }
+  if (chunk instanceof ArrayBuffer) {
+    return new Uint8Array(chunk)
+  }
+  throw new TypeError('The chunk must be an ArrayBuffer or an ArrayBufferView')
+}
+
+/**
+ * Creates the transformer driving a Node.js compressor or decompressor from a
+ * web stream.
+ *
+ * @param {Transform} handler - The Node.js compressor or decompressor.
+ * @param {number | undefined} flushKind - The flush operation, `undefined` to never flush early.
+ * @param {FlushStrategy | false} strategy - When to flush the pending output.
+ * @param {(error: Error) => Error} [wrapError] - Converts the errors of the handler.
+ * @returns {Transformer<Uint8Array, Uint8Array>} The transformer.
+ */
+const createTransformer = (
+  handler: Transform,
+  flushKind: number | undefined,
+  strategy: FlushStrategy | false,
+  wrapError: (error: Error) => Error = (error) => error,
+): Transformer<Uint8Array, Uint8Array> => {
+  const endsEvent = strategy === 'event' ? createEventScanner() : undefined
+  let pendingBytes = 0
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  /**
+   * Writes a chunk to the handler.
+   *
+   * @param {Uint8Array} chunk - The chunk to transform.
+   * @returns {Promise<void>} Resolves once the handler has consumed the chunk.
+   */
+  const write = (chunk: Uint8Array): Promise<void> =>
+    new Promise((resolve, reject) => {
+      handler.write(chunk, (error) =>
+        error ? reject(wrapError(error)) : resolve(),
+      )
     })
+
+  /**
+   * Flushes the compressor, emitting everything written so far as a decodable block.
+   *
+   * @returns {Promise<void>} Resolves once the flushed output has been emitted.
+   */
+  const flush = (): Promise<void> => {
+    clearTimeout(timer)
+    timer = undefined
+    pendingBytes = 0
+
+    return new Promise((resolve) =>
+      (handler as Transform & zlib.Zlib).flush(flushKind, resolve),
+    )
+  }
+
+  /**
+   * Decides whether a written chunk should be flushed right away.
+   *
+   * @param {Uint8Array} chunk - The chunk written to the compressor.
+   * @returns {boolean} `true` to flush now.
+   */
+  const shouldFlush = (chunk: Uint8Array): boolean => {
+    if (flushKind === undefined) {
+      return false
+    }
+    if (strategy === 'chunk') {
+      return true
+    }
+    if (endsEvent) {
+      return endsEvent(chunk)
+    }
+    if (typeof strategy !== 'object') {
+      return false
+    }
+
+    pendingBytes += chunk.byteLength
+    if (strategy.size !== undefined && pendingBytes >= strategy.size) {
+      return true
+    }
+    if (strategy.interval !== undefined && !timer) {
+      timer = setTimeout(flush, strategy.interval)
+    }
+    return false
   }
 
-  const readable = new ReadableStream({
+  /**
+   * Releases the native handler, e.g. when the client disconnects.
+   */
+  const destroy = (): void => {
+    clearTimeout(timer)
+    handler.destroy()
+  }
+
+  // `cancel` is missing from the DOM typings, Node.js 20+ calls it on cancel and abort
+  const transformer: Transformer<Uint8Array, Uint8Array> & {
+    cancel: (reason: unknown) => void
+  } = {
     /**
-     * Starts the stream and sets up event listeners for 'data' and 'end' events.
+     * Forwards the handler output and errors to the readable side.
      *
-     * @param {ReadableStreamDefaultController<Uint8Array>} controller - The controller object for the readable stream.
+     * @param {TransformStreamDefaultController<Uint8Array>} controller - The controller of the stream.
      */
-    start(controller: ReadableStreamDefaultController<Uint8Array>) {
-      handler.on('data', (chunk: Uint8Array) => controller.enqueue(chunk))
-      handler.once('end', () => controller.close())
+    start(controller: TransformStreamDefaultController<Uint8Array>) {
+      handler.on('data', (chunk: Uint8Array) => {
+        try {
+          controller.enqueue(chunk)
+        } catch {
+          // The readable side is cancelled or errored, the output has nowhere to go
+          destroy()
+        }
+      })
+      handler.on('error', (error) => controller.error(wrapError(error)))
     },
-  })
 
-  const writable = new WritableStream({
     /**
-     * Writes a chunk of data to the writable stream.
+     * Transforms a chunk, waiting until the handler has consumed it.
      *
-     * @param {Uint8Array} chunk - The chunk of data to write.
+     * @param {Uint8Array} chunk - The chunk of data to transform.
      * @returns {Promise<void>}
      */
-    write: (chunk: Uint8Array): Promise<void> => handler.write(chunk) as any,
+    async transform(chunk: Uint8Array): Promise<void> {
+      try {
+        const bytes = toBytes(chunk)
+        await write(bytes)
+        if (shouldFlush(bytes)) {
+          await flush()
+        }
+      } catch (error) {
+        destroy()
+        throw error
+      }
+    },
 
     /**
-     * Closes the writable stream.
+     * Ends the handler, resolving once its remaining output has been emitted.
      *
      * @returns {Promise<void>}
      */
-    close: (): Promise<void> => handler.end() as any,
-  })
+    flush: (): Promise<void> =>
+      new Promise((resolve, reject) => {
+        clearTimeout(timer)
+        handler.once('end', resolve)
+        handler.once('error', (error) => reject(wrapError(error)))
+        handler.end()
+      }),
+
+    /**
+     * Tears down the handler when the readable side is cancelled or the
+     * writable side is aborted.
+     */
+    cancel: destroy,
+  }
+
+  return transformer
+}
 
-  return {
-    readable,
-    writable,
+/**
+ * A web standard `CompressionStream`, also supporting `br` and `zstd` and
+ * taking the compression options of the middleware.
+ *
+ * The readable side buffers up to `highWaterMark` compressed bytes, writes wait
+ * while it is full so a slow client doesn't make the output grow unbounded.
+ *
+ * @see https://compression.spec.whatwg.org/#compressionstream
+ *
+ * @example new Response(body.pipeThrough(new CompressionStream('br')))
+ */
+export class CompressionStream extends TransformStream<Uint8Array, Uint8Array> {
+  /**
+   * Creates a compression stream.
+   *
+   * @param {CompressionFormat} format - The compression format.
+   * @param {CompressionOptions} [options] - The compression options.
+   * @throws {TypeError} When the format is unknown or unsupported by the runtime.
+   */
+  constructor(format: CompressionFormat, options?: CompressionOptions) {
+    const { handler, flushKind } = createCompressor(format, options)
+
+    super(
+      createTransformer(handler, flushKind, options?.flush ?? false),
+      undefined,
+      new ByteLengthQueuingStrategy({ highWaterMark }),
+    )
+  }
+}
+
+/**
+ * A web standard `DecompressionStream`, also supporting `br` and `zstd`.
+ *
+ * Corrupted or truncated input errors both sides with a `TypeError`.
+ *
+ * @see https://compression.spec.whatwg.org/#decompressionstream
+ *
+ * @example await new Response(body.pipeThrough(new DecompressionStream('gzip'))).text()
+ */
+export class DecompressionStream extends TransformStream<
+  Uint8Array,
+  Uint8Array
+> {
+  /**
+   * Creates a decompression stream.
+   *
+   * @param {CompressionFormat} format - The compression format.
+   * @param {DecompressionStreamOptions} [options] - The decompression options.
+   * @throws {TypeError} When the format is unknown or unsupported by the runtime.
+   */
+  constructor(format: CompressionFormat, options?: DecompressionStreamOptions) {
+    super(
+      createTransformer(
+        createDecompressor(format, options),
+        undefined,
+        false,
+        (error) => new TypeError(error.message, { cause: error }),
+      ),
+      undefined,
+      new ByteLengthQueuingStrategy({ highWaterMark }),
+    )
   }
 }
@@ -0,0 +1,77 @@
+import type { CompressibleTypes } from './types'
+
+/**
+ * Content types compressed by default, every `text/*` type except Server-Sent Events,
+ * JSON, XML and binary octet streams.
+ */
+export const defaultCompressibleTypes =
+  /^text\/(?!event-stream)|(?:\+|\/)json(?:;|$)|(?:\+|\/)text(?:;|$)|(?:\+|\/)xml(?:;|$)|octet-stream(?:;|$)/u
+
+/**
+ * Gets the media type of a content type, lowercased and without parameters.
+ *
+ * @param {string} contentType - The `Content-Type` header value.
+ * @returns {string} The media type, e.g. `text/html`, empty without content type.
+ */
+export const mediaTypeOf = (contentType: string): string =>
+  contentType.split(';')[0]?.trim().toLowerCase() ?? ''
+
+/**
+ * Checks a content type against a MIME type pattern.
+ *
+ * Strings match the media type (ignoring parameters) case-insensitively and may
+ * end with a `/*` wildcard, regular expressions are tested against the raw value.
+ *
+ * @param {string} contentType - The `Content-Type` header value.
+ * @param {string | RegExp} pattern - The MIME type or pattern to match.
+ * @returns {boolean} `true` if the content type matches.
+ */
+export const matchesType = (
+  contentType: string,
+  pattern: string | RegExp,
+): boolean => {
+  if (pattern instanceof RegExp) {
+    return pattern.test(contentType)
+  }
+
+  const mediaType = mediaTypeOf(contentType)
+  const expected = pattern.toLowerCase()
+
+  return expected.endsWith('/*')
+    ? mediaType.startsWith(expected.slice(0, -1))
+    : mediaType === expected
+}
+
+/**
+ * Creates a predicate deciding whether a content type is compressible.
+ *
+ * Responses without a content type are assumed to be `text/plain` and always compressible.
+ *
+ * @param {CompressibleTypes} [compressibleTypes] - A pattern replacing the defaults, or types to add to or remove from them.
+ * @returns {(contentType: string) => boolean} The predicate.
+ */
+export const createTypeMatcher = (
+  compressibleTypes?: CompressibleTypes,
+): ((contentType: string) => boolean) => {
+  if (compressibleTypes instanceof RegExp) {
+    return (contentType) => !contentType || compressibleTypes.test(contentType)
+  }
+
+  const include = compressibleTypes?.include ?? []
+  const exclude = compressibleTypes?.exclude ?? []
+
+  return (contentType) => {
+    if (!contentType) {
+      return true
+    }
+
+    if (exclude.some((pattern) => matchesType(contentType, pattern))) {
+      return false
+    }
+
+    return (
+      defaultCompressibleTypes.test(contentType) ||
+      include.some((pattern) => matchesType(contentType, pattern))
+    )
+  }
+}
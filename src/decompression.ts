@@ -0,0 +1,168 @@
+import { defineMiddleware } from 'vafast'
+import zlib from 'node:zlib'
+import { promisify } from 'node:util'
+import type { CompressionEncoding, DecompressionOptions } from './types'
+import { isEncodingSupported } from './compression-stream'
+
+/**
+ * Request body methods delegated to the decompressed request.
+ */
+const bodyMethods = [
+  'arrayBuffer',
+  'blob',
+  'bytes',
+  'clone',
+  'formData',
+  'json',
+  'text',
+] as const
+
+/**
+ * Aliases of content-codings as registered in the HTTP Content Coding Registry.
+ *
+ * @see https://www.iana.org/assignments/http-parameters/http-parameters.xhtml#content-coding
+ */
+const codingAliases: Record<string, string> = {
+  'x-gzip': 'gzip',
+}
+
+/**
+ * Creates a middleware that transparently inflates request bodies based on their `Content-Encoding` header.
+ *
+ * Stacked codings (e.g. `gzip, br`) are removed in reverse order of application. Once inflated, the
+ * `Content-Encoding` header is removed and `Content-Length` reflects the decompressed body.
+ *
+ * @param {DecompressionOptions} [options] - Optional decompression options.
+ * @param {CompressionEncoding[]} [options.encodings] - The accepted request codings. Defaults to ['br', 'zstd', 'gzip', 'deflate'].
+ * @param {number} [options.maxOutputLength] - The maximum decompressed body size in bytes. Defaults to 10 MiB.
+ * @param {number} [options.maxRatio] - The maximum decompressed to compressed size ratio. Defaults to 100.
+ * @returns {Middleware} - The decompression middleware.
+ */
+export const decompression = (options?: DecompressionOptions) => {
+  const encodings = (
+    options?.encodings ?? ['br', 'zstd', 'gzip', 'deflate']
+  ).filter(isEncodingSupported)
+  const maxOutputLength = options?.maxOutputLength ?? 10 * 1024 * 1024 // 10 MiB
+  const maxRatio = options?.maxRatio ?? 100
+
+  const brotliDecompress = promisify(zlib.brotliDecompress)
+  const gunzip = promisify(zlib.gunzip)
+  const inflateZlib = promisify(zlib.inflate)
+  const zstdDecompress = zlib.zstdDecompress && promisify(zlib.zstdDecompress)
+
+  const decompressors = {
+    br: (buffer: Buffer, limit: number) =>
+      brotliDecompress(buffer, {
+        ...options?.brotliOptions,
+        maxOutputLength: limit,
+      }),
+    gzip: (buffer: Buffer, limit: number) =>
+      gunzip(buffer, { ...options?.zlibOptions, maxOutputLength: limit }),
+    deflate: (buffer: Buffer, limit: number) =>
+      inflateZlib(buffer, { ...options?.zlibOptions, maxOutputLength: limit }),
+    zstd: (buffer: Buffer, limit: number) =>
+      zstdDecompress(buffer, {
+        ...options?.zstdOptions,
+        maxOutputLength: limit,
+      }),
+  } as Record<
+    CompressionEncoding,
+    (buffer: Buffer, limit: number) => Promise<Buffer>
+  >
+
+  /**
+   * Inflates the request body off the event loop, removing the codings in
+   * reverse order of application.
+   *
+   * @param {Buffer} body - The encoded request body.
+   * @param {CompressionEncoding[]} codings - The codings applied to the body, in order.
+   * @returns {Promise<Buffer>} The decompressed body.
+   */
+  const inflate = async (
+    body: Buffer,
+    codings: CompressionEncoding[],
+  ): Promise<Buffer> => {
+    const limit = Math.min(maxOutputLength, body.byteLength * maxRatio)
+
+    let buffer = body
+    for (const coding of [...codings].reverse()) {
+      buffer = await decompressors[coding](buffer, limit)
+    }
+    return buffer
+  }
+
+  return defineMiddleware<object>(async (req, next) => {
+    const contentEncoding = req.headers.get('content-encoding')
+    if (!contentEncoding) {
+      return next()
+    }
+
+    const codings = contentEncoding
+      .split(',')
+      .map((coding) => coding.trim().toLowerCase())
+      .map((coding) => codingAliases[coding] ?? coding)
+      .filter((coding) => coding && coding !== 'identity')
+
+    const unsupported = codings.some(
+      (coding) => !encodings.includes(coding as CompressionEncoding),
+    )
+    if (unsupported) {
+      return new Response(null, {
+        status: 415,
+        headers: { 'Accept-Encoding': encodings.join(', ') },
+      })
+    }
+
+    let body: Buffer | null = null
+    if (req.body) {
+      try {
+        body = await inflate(
+          Buffer.from(await req.arrayBuffer()),
+          codings as CompressionEncoding[],
+        )
+      } catch (error) {
+        // Thrown by zlib once `maxOutputLength` is exceeded
+        if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+          return new Response(null, { status: 413 })
+        }
+
+        return new Response(null, { status: 400 })
+      }
+    }
+
+    const headers = new Headers(req.headers)
+    headers.delete('Content-Encoding')
+    if (body) {
+      headers.set('Content-Length', String(body.byteLength))
+    } else {
+      headers.delete('Content-Length')
+    }
+
+    const decoded = new Request(req.url, {
+      method: req.method,
+      headers,
+      body: body ? new Uint8Array(body) : null,
+    })
+
+    /**
+     * vafast passes the same Request object through the whole chain, so the
+     * decoded headers and body are exposed on it instead of replacing it.
+     */
+    Object.defineProperties(req, {
+      headers: { get: () => decoded.headers, configurable: true },
+      body: { get: () => decoded.body, configurable: true },
+      bodyUsed: { get: () => decoded.bodyUsed, configurable: true },
+    })
+    for (const method of bodyMethods) {
+      const fn: unknown = Reflect.get(decoded, method)
+      if (typeof fn === 'function') {
+        Object.defineProperty(req, method, {
+          value: fn.bind(decoded),
+          configurable: true,
+        })
+      }
+    }
+
+    return next()
+  })
+}
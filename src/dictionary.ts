@@ -0,0 +1,296 @@
+import { createHash } from 'node:crypto'
+import zlib from 'node:zlib'
+import type {
+  CompressionDictionary,
+  DictionaryEncoding,
+  DictionaryStore,
+  DictionaryStoreOptions,
+  StoredDictionary,
+} from './types'
+import { MemCache } from './cache'
+import { isEncodingSupported } from './compression-stream'
+
+type DictionaryEntry = StoredDictionary & {
+  pattern: RegExp
+}
+
+type StaticDictionary = DictionaryEntry & {
+  path: string
+  header: string
+}
+
+/**
+ * The compression algorithm behind each dictionary-compressed encoding.
+ */
+export const dictionaryAlgorithms: Record<DictionaryEncoding, 'br' | 'zstd'> = {
+  dcb: 'br',
+  dcz: 'zstd',
+}
+
+/**
+ * The magic numbers starting dictionary-compressed bodies, followed by the
+ * SHA-256 hash of the dictionary.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc9842#section-4
+ */
+const magicNumbers: Record<DictionaryEncoding, Uint8Array> = {
+  dcb: new Uint8Array([0xff, 0x44, 0x43, 0x42]),
+  dcz: new Uint8Array([0x5e, 0x2a, 0x4d, 0x18, 0x20, 0x00, 0x00, 0x00]),
+}
+
+const supportedEncodings = new Map<DictionaryEncoding, boolean>()
+
+/**
+ * Checks whether the given dictionary encoding can be produced by the current runtime.
+ *
+ * `node:zlib` silently ignores the `dictionary` option of compressors lacking
+ * shared dictionary support (brotli as of Node.js 24), so a sample compressed
+ * with itself as dictionary must come out smaller.
+ *
+ * @param {DictionaryEncoding} encoding - The dictionary encoding to check.
+ * @returns {boolean} `true` if the encoding is available, `false` otherwise.
+ */
+export const isDictionaryEncodingSupported = (
+  encoding: DictionaryEncoding,
+): boolean => {
+  let supported = supportedEncodings.get(encoding)
+
+  if (supported === undefined) {
+    const algorithm = dictionaryAlgorithms[encoding]
+    const compress =
+      algorithm === 'br' ? zlib.brotliCompressSync : zlib.zstdCompressSync
+    // Random bytes only compress well against a dictionary holding them
+    const sample = createHash('sha512').update(encoding).digest()
+    const options: object = { dictionary: sample }
+
+    try {
+      supported =
+        isEncodingSupported(algorithm) &&
+        compress(sample, options).byteLength < compress(sample).byteLength
+    } catch {
+      supported = false
+    }
+    supportedEncodings.set(encoding, supported)
+  }
+
+  return supported
+}
+
+/**
+ * Creates the header preceding a dictionary-compressed body.
+ *
+ * @param {DictionaryEncoding} encoding - The dictionary encoding.
+ * @param {Uint8Array} hash - The SHA-256 hash of the dictionary.
+ * @returns {Uint8Array} The magic number followed by the hash.
+ */
+export const dictionaryHeader = (
+  encoding: DictionaryEncoding,
+  hash: Uint8Array,
+): Uint8Array => {
+  const magicNumber = magicNumbers[encoding]
+  const header = new Uint8Array(magicNumber.byteLength + hash.byteLength)
+  header.set(magicNumber)
+  header.set(hash, magicNumber.byteLength)
+  return header
+}
+
+/**
+ * Parses an `Available-Dictionary` header, a structured field byte sequence
+ * holding the SHA-256 hash of the dictionary.
+ *
+ * @param {string | null} header - The raw `Available-Dictionary` header value.
+ * @returns {Buffer | undefined} The hash, `undefined` when missing or malformed.
+ */
+export const parseAvailableDictionary = (
+  header: string | null,
+): Buffer | undefined => {
+  const match = /^\s*:([A-Za-z0-9+/]+={0,2}):\s*$/u.exec(header ?? '')
+  const hash = match?.[1] ? Buffer.from(match[1], 'base64') : undefined
+  return hash?.byteLength === 32 ? hash : undefined
+}
+
+/**
+ * Formats a `Use-As-Dictionary` header, a structured field dictionary.
+ *
+ * @param {Pick<CompressionDictionary, 'match' | 'matchDest' | 'id'>} dictionary - The dictionary to announce.
+ * @returns {string} The header value.
+ */
+export const formatUseAsDictionary = ({
+  match,
+  matchDest,
+  id,
+}: Pick<CompressionDictionary, 'match' | 'matchDest' | 'id'>): string => {
+  const quote = (value: string) => `"${value.replace(/[\\"]/gu, '\\$&')}"`
+  const members = [`match=${quote(match)}`]
+
+  if (matchDest && matchDest.length > 0) {
+    members.push(`match-dest=(${matchDest.map(quote).join(' ')})`)
+  }
+  if (id !== undefined) {
+    members.push(`id=${quote(id)}`)
+  }
+
+  return members.join(', ')
+}
+
+/**
+ * Converts a dictionary URL pattern into a regular expression matching paths,
+ * where `*` matches any characters.
+ *
+ * @param {string} match - The URL pattern.
+ * @returns {RegExp} The regular expression.
+ */
+const patternToRegExp = (match: string): RegExp =>
+  new RegExp(
+    `^${match
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/gu, '\\$&'))
+      .join('.*')}$`,
+    'u',
+  )
+
+/**
+ * Checks whether a dictionary applies to a request, by URL and destination.
+ *
+ * @param {DictionaryEntry} dictionary - The dictionary.
+ * @param {Request} req - The request being handled.
+ * @returns {boolean} `true` if the dictionary applies to the request.
+ */
+const appliesTo = (
+  { pattern, matchDest }: DictionaryEntry,
+  req: Request,
+): boolean =>
+  pattern.test(new URL(req.url).pathname) &&
+  (!matchDest ||
+    matchDest.length < 1 ||
+    matchDest.includes(req.headers.get('Sec-Fetch-Dest') ?? ''))
+
+/**
+ * Computes the SHA-256 hash identifying a dictionary.
+ *
+ * @param {Uint8Array} content - The dictionary content.
+ * @returns {Buffer} The hash.
+ */
+const hashDictionary = (content: Uint8Array): Buffer =>
+  createHash('sha256').update(content).digest()
+
+/**
+ * Creates a store of shared dictionaries for Compression Dictionary Transport,
+ * to be passed as the `dictionaries` option.
+ *
+ * Static dictionaries are served by the store `handler` and advertised on the
+ * responses they apply to. Responses matching a `derive` pattern become
+ * dictionaries for the later requests matching the same pattern.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc9842
+ *
+ * @param {DictionaryStoreOptions} [options] - The store options.
+ * @returns {DictionaryStore} The dictionary store.
+ */
+export const createDictionaryStore = (
+  options?: DictionaryStoreOptions,
+): DictionaryStore => {
+  const TTL = options?.TTL ?? 24 * 60 * 60 // 24 hours
+  const statics: StaticDictionary[] = (options?.dictionaries ?? []).map(
+    ({ path, match, matchDest, id, content }) => {
+      const buffer = Buffer.from(content)
+      return {
+        path,
+        match,
+        matchDest,
+        content: buffer,
+        hash: hashDictionary(buffer),
+        pattern: patternToRegExp(match),
+        header: formatUseAsDictionary({ match, matchDest, id }),
+      }
+    },
+  )
+  const derivations = (options?.derive ?? []).map((match) => ({
+    match,
+    pattern: patternToRegExp(match),
+  }))
+  const derived = new MemCache<DictionaryEntry>({
+    maxEntries: options?.maxEntries ?? 100,
+    maxSize: options?.maxSize ?? 10 * 1024 * 1024, // 10 MiB
+    sizeOf: ({ content }) => content.byteLength,
+  })
+
+  /**
+   * Finds the `derive` pattern matching a request.
+   *
+   * @param {Request} req - The request being handled.
+   * @returns {{ match: string, pattern: RegExp } | undefined} The derivation, `undefined` when none matches.
+   */
+  const findDerivation = (req: Request) => {
+    const pathname = new URL(req.url).pathname
+    return derivations.find(({ pattern }) => pattern.test(pathname))
+  }
+
+  return {
+    find: (req) => {
+      const hash = parseAvailableDictionary(
+        req.headers.get('Available-Dictionary'),
+      )
+      if (!hash) {
+        return undefined
+      }
+
+      const dictionary =
+        statics.find((entry) => entry.hash.equals(hash)) ??
+        derived.get(hash.toString('hex'))
+      return dictionary && appliesTo(dictionary, req) ? dictionary : undefined
+    },
+
+    matches: (req) => {
+      const pathname = new URL(req.url).pathname
+      return [...statics, ...derivations].some(({ pattern }) =>
+        pattern.test(pathname),
+      )
+    },
+
+    useAsDictionary: (req) => {
+      const derivation = findDerivation(req)
+      return derivation ? formatUseAsDictionary(derivation) : undefined
+    },
+
+    derive: (req, body) => {
+      const derivation = findDerivation(req)
+      if (derivation) {
+        const content = Buffer.from(body)
+        const hash = hashDictionary(content)
+        derived.set(hash.toString('hex'), { ...derivation, content, hash }, TTL)
+      }
+    },
+
+    link: (req) => {
+      const announced = parseAvailableDictionary(
+        req.headers.get('Available-Dictionary'),
+      )
+      const links = statics
+        .filter(
+          (dictionary) =>
+            appliesTo(dictionary, req) &&
+            !(announced && dictionary.hash.equals(announced)),
+        )
+        .map(({ path }) => `<${path}>; rel="compression-dictionary"`)
+
+      return links.length > 0 ? links.join(', ') : undefined
+    },
+
+    handler: ({ req }) => {
+      const pathname = new URL(req.url).pathname
+      const dictionary = statics.find(({ path }) => path === pathname)
+      if (!dictionary) {
+        return new Response(null, { status: 404 })
+      }
+
+      return new Response(new Uint8Array(dictionary.content), {
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'Cache-Control': `public, max-age=${TTL}`,
+          'Use-As-Dictionary': dictionary.header,
+        },
+      })
+    },
+  }
+}
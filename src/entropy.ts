@@ -0,0 +1,50 @@
+import type { EntropySamplingOptions } from './types'
+
+/**
+ * Computes the Shannon entropy of bytes, from 0 for a single repeated byte to 8
+ * bits per byte for uniformly random data.
+ *
+ * @param {Uint8Array} bytes - The bytes to measure.
+ * @returns {number} The entropy in bits per byte.
+ */
+export const shannonEntropy = (bytes: Uint8Array): number => {
+  if (bytes.byteLength < 1) {
+    return 0
+  }
+
+  const counts = new Uint32Array(256)
+  for (const byte of bytes) {
+    counts[byte] = (counts[byte] ?? 0) + 1
+  }
+
+  let entropy = 0
+  for (const count of counts) {
+    if (count > 0) {
+      const probability = count / bytes.byteLength
+      entropy -= probability * Math.log2(probability)
+    }
+  }
+  return entropy
+}
+
+/**
+ * Creates a predicate telling from its first bytes whether a body looks
+ * incompressible, e.g. already compressed, encrypted or random data.
+ *
+ * Text and structured data stay well below 7 bits per byte, while compressed
+ * formats come close to 8.
+ *
+ * @param {EntropySamplingOptions} [options] - The sampling options.
+ * @returns {(buffer: ArrayBuffer) => boolean} The predicate.
+ */
+export const createEntropySampler = (
+  options?: EntropySamplingOptions,
+): ((buffer: ArrayBuffer) => boolean) => {
+  const sampleSize = options?.sampleSize ?? 4096
+  const maxEntropy = options?.maxEntropy ?? 7.5
+
+  return (buffer) =>
+    shannonEntropy(
+      new Uint8Array(buffer, 0, Math.min(buffer.byteLength, sampleSize)),
+    ) > maxEntropy
+}
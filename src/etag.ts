@@ -0,0 +1,65 @@
+import type { CompressionEncoding, DictionaryEncoding } from './types'
+
+/**
+ * Alters an entity tag so that it identifies the encoded representation.
+ *
+ * @param {string} etag - The entity tag of the original representation.
+ * @param {CompressionEncoding | DictionaryEncoding} encoding - The encoding applied to the body.
+ * @param {'suffix' | 'weak'} mode - Whether to suffix the tag with the encoding or weaken it.
+ * @param {Uint8Array} [dictionaryHash] - The hash of the dictionary the body was compressed against.
+ * @returns {string} The entity tag of the encoded representation.
+ */
+export const encodeETag = (
+  etag: string,
+  encoding: CompressionEncoding | DictionaryEncoding,
+  mode: 'suffix' | 'weak',
+  dictionaryHash?: Uint8Array,
+): string => {
+  const weak = etag.startsWith('W/')
+  const opaque = weak ? etag.slice(2) : etag
+
+  if (mode === 'weak') {
+    return `W/${opaque}`
+  }
+
+  // Malformed (unquoted) tags are suffixed as-is
+  const quoted =
+    opaque.length > 1 && opaque.startsWith('"') && opaque.endsWith('"')
+  // Bodies compressed against different dictionaries are different representations
+  const suffix = dictionaryHash
+    ? `${encoding}-${Buffer.from(dictionaryHash).toString('hex').slice(0, 8)}`
+    : encoding
+  const tag = quoted
+    ? `"${opaque.slice(1, -1)}-${suffix}"`
+    : `${opaque}-${suffix}`
+
+  return weak ? `W/${tag}` : tag
+}
+
+/**
+ * Checks if an `If-None-Match` header matches an entity tag, using the weak
+ * comparison required for `If-None-Match`.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc9110#section-13.1.2
+ *
+ * @param {string | null} ifNoneMatch - The raw `If-None-Match` header value.
+ * @param {string} etag - The entity tag of the response.
+ * @returns {boolean} `true` if the client already has this representation.
+ */
+export const matchesIfNoneMatch = (
+  ifNoneMatch: string | null,
+  etag: string,
+): boolean => {
+  if (!ifNoneMatch) {
+    return false
+  }
+
+  if (ifNoneMatch.trim() === '*') {
+    return true
+  }
+
+  const opaque = (tag: string) => tag.trim().replace(/^W\//u, '')
+  const target = opaque(etag)
+
+  return ifNoneMatch.split(',').some((tag) => opaque(tag) === target)
+}
@@ -1,6 +1,24 @@
-import { compression } from './main'
+import { compression, getNegotiatedEncoding } from './main'
 
 export * from './types'
-export * from './compression-stream'
+export { CompressionStream, DecompressionStream } from './compression-stream'
+export { MemCache } from './cache'
+export type { MemCacheOptions, MemCacheStats } from './cache'
+export { negotiateEncoding } from './negotiation'
+export { decompression } from './decompression'
+export { serveStatic } from './static'
+export { precompress } from './precompress'
+export { createCompressionStats } from './stats'
+export type {
+  CompressionStats,
+  CompressionStatsOptions,
+  CompressionStatsSnapshot,
+  Histogram,
+} from './stats'
+export {
+  createDictionaryStore,
+  isDictionaryEncodingSupported,
+} from './dictionary'
+export { maskSecret, matchesMaskedSecret, unmaskSecret } from './breach'
 export default compression
-export { compression }
+export { compression, getNegotiatedEncoding }
@@ -1,21 +1,222 @@
 import { defineMiddleware } from 'vafast'
 import type {
   CacheOptions,
+  CachedValue,
   CompressionEncoding,
   CompressionOptions,
+  DictionaryEncoding,
   LifeCycleOptions,
+  SkipReason,
+  StoredDictionary,
+  WarmOptions,
 } from './types'
-import {
-  BrotliOptions,
-  ZlibOptions,
-  constants,
-  brotliCompressSync,
-  gzipSync,
-  deflateSync,
-} from 'node:zlib'
 import { createHash } from 'node:crypto'
 import { CompressionStream } from './compression-stream'
-import cacheStore from './cache'
+import { negotiateEncoding } from './negotiation'
+import { encodeETag, matchesIfNoneMatch } from './etag'
+import { MemCache } from './cache'
+import {
+  createProfile,
+  resolveTuning,
+  withDictionary,
+  withLevel,
+  withTuning,
+} from './profile'
+import type { CompressionProfile } from './profile'
+import { createWorkerPool } from './worker-pool'
+import {
+  createAdaptivePolicy,
+  createLoadMonitor,
+  isCacheable,
+} from './adaptive'
+import type { WorkerPool } from './worker-pool'
+import {
+  dictionaryAlgorithms,
+  dictionaryHeader,
+  isDictionaryEncodingSupported,
+} from './dictionary'
+import { createPadding } from './breach'
+import { mediaTypeOf } from './content-type'
+
+/**
+ * Checks if a request path matches a route path prefix or pattern.
+ *
+ * @param {string} pathname - The request path.
+ * @param {string | RegExp} path - The route path prefix or pattern.
+ * @returns {boolean} `true` if the route applies to the request.
+ */
+const matchesRoute = (pathname: string, path: string | RegExp): boolean => {
+  if (path instanceof RegExp) {
+    return path.test(pathname)
+  }
+
+  const prefix = path.endsWith('/') ? path.slice(0, -1) : path
+  return (
+    pathname === prefix ||
+    pathname.startsWith(`${prefix}/`) ||
+    (prefix === '' && pathname.startsWith('/'))
+  )
+}
+
+/**
+ * The encodings negotiated before running the handler, by requests.
+ */
+const negotiatedEncodings = new WeakMap<
+  Request,
+  CompressionEncoding | 'identity'
+>()
+
+/**
+ * Gets the encoding negotiated for a request by a compression middleware using
+ * `as: 'before'`, e.g. for a caching middleware or handler running after it to
+ * vary on it.
+ *
+ * @param {Request} req - The request being handled.
+ * @returns {CompressionEncoding | 'identity' | undefined} The negotiated encoding, `undefined` if not negotiated yet.
+ */
+export const getNegotiatedEncoding = (
+  req: Request,
+): CompressionEncoding | 'identity' | undefined => negotiatedEncodings.get(req)
+
+/**
+ * Creates a stream starting with the given bytes, then passing chunks through.
+ *
+ * @param {Uint8Array} bytes - The bytes sent first.
+ * @returns {TransformStream<Uint8Array, Uint8Array>} The prepending stream.
+ */
+const prepend = (bytes: Uint8Array): TransformStream<Uint8Array, Uint8Array> =>
+  new TransformStream({
+    start(controller) {
+      controller.enqueue(bytes)
+    },
+  })
+
+/**
+ * Creates a stream passing chunks through, then ending with the given bytes.
+ *
+ * @param {Uint8Array} bytes - The bytes sent last.
+ * @returns {TransformStream<Uint8Array, Uint8Array>} The appending stream.
+ */
+const append = (bytes: Uint8Array): TransformStream<Uint8Array, Uint8Array> =>
+  new TransformStream({
+    flush(controller) {
+      controller.enqueue(bytes)
+    },
+  })
+
+/**
+ * Creates a stream passing chunks through while collecting them.
+ *
+ * @param {Uint8Array[]} chunks - The array receiving the chunks.
+ * @param {() => void} onEnd - Called once the stream ends.
+ * @returns {TransformStream<Uint8Array, Uint8Array>} The collecting stream.
+ */
+const collect = (
+  chunks: Uint8Array[],
+  onEnd: () => void,
+): TransformStream<Uint8Array, Uint8Array> =>
+  new TransformStream({
+    transform(chunk, controller) {
+      chunks.push(chunk)
+      controller.enqueue(chunk)
+    },
+    flush() {
+      onEnd()
+    },
+  })
+
+/**
+ * Creates a stream passing chunks through while counting their bytes.
+ *
+ * @param {(bytes: number) => void} onChunk - Called with the byte size of each chunk.
+ * @param {() => void} [onEnd] - Called once the stream ends.
+ * @returns {TransformStream<Uint8Array, Uint8Array>} The counting stream.
+ */
+const countBytes = (
+  onChunk: (bytes: number) => void,
+  onEnd?: () => void,
+): TransformStream<Uint8Array, Uint8Array> =>
+  new TransformStream({
+    transform(chunk, controller) {
+      onChunk(chunk.byteLength)
+      controller.enqueue(chunk)
+    },
+    flush() {
+      onEnd?.()
+    },
+  })
+
+/**
+ * Reads the start of a body, telling bodies given at once (strings, buffers)
+ * from streams still being produced.
+ *
+ * Chunks are awaited until the body ends or at least `size` bytes are read.
+ * Then one more read gets until the next turn of the event loop: the body is
+ * whole if it ended by then, and a stream otherwise, even when that read gives
+ * another chunk. Past `size` bytes, a slow chunk is never waited for.
+ *
+ * @param {ReadableStream<Uint8Array>} body - The response body.
+ * @param {number} size - The byte size worth waiting for.
+ * @returns {Promise<ArrayBuffer | ReadableStream<Uint8Array>>} The whole body if it ended, a stream replaying the bytes read otherwise.
+ */
+const peekBody = async (
+  body: ReadableStream<Uint8Array>,
+  size: number,
+): Promise<ArrayBuffer | ReadableStream<Uint8Array>> => {
+  const reader = body.getReader()
+  const chunks: Uint8Array[] = []
+  let bytes = 0
+  let pending = reader.read()
+
+  for (;;) {
+    const enough = bytes >= size
+    const result = enough
+      ? await Promise.race([
+          pending,
+          new Promise<undefined>((resolve) =>
+            setImmediate(() => resolve(undefined)),
+          ),
+        ])
+      : await pending
+
+    if (result?.done) {
+      const buffer = new Uint8Array(bytes)
+      let offset = 0
+      for (const chunk of chunks) {
+        buffer.set(chunk, offset)
+        offset += chunk.byteLength
+      }
+      return buffer.buffer
+    }
+
+    if (result) {
+      chunks.push(result.value)
+      bytes += result.value.byteLength
+      pending = reader.read()
+    }
+    if (enough) {
+      break
+    }
+  }
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(chunk)
+      }
+    },
+    async pull(controller) {
+      const { done, value } = await pending
+      if (done) {
+        controller.close()
+      } else {
+        controller.enqueue(value)
+        pending = reader.read()
+      }
+    },
+    cancel: (reason) => reader.cancel(reason),
+  })
+}
 
 /**
  * Creates a compression middleware function that compresses the response body based on the client's accept-encoding header.
@@ -24,68 +225,477 @@ import cacheStore from './cache'
  * @param {CompressionOptions} [options.compressionOptions] - Compression options.
  * @param {LifeCycleOptions} [options.lifeCycleOptions] - Life cycle options.
  * @param {CacheOptions} [options.cacheOptions] - Cache options.
- * @param {CompressionEncoding[]} [options.compressionOptions.encodings] - An array of supported compression encodings. Defaults to ['br', 'gzip', 'deflate'].
+ * @param {CompressionEncoding[]} [options.compressionOptions.encodings] - An array of supported compression encodings. Defaults to ['br', 'zstd', 'gzip', 'deflate'].
  * @param {boolean} [options.compressionOptions.disableByHeader] - Disable compression by header. Defaults to false.
  * @param {BrotliOptions} [options.compressionOptions.brotliOptions] - Brotli compression options.
  * @param {ZlibOptions} [options.compressionOptions.zlibOptions] - Zlib compression options.
- * @param {string} [options.lifeCycleOptions.as] - The middleware execution order. Defaults to 'after'.
+ * @param {ZstdOptions} [options.compressionOptions.zstdOptions] - Zstd compression options.
+ * @param {boolean} [options.compressionOptions.tuning] - Tunes the brotli and zlib parameters per response from its content type and size. Defaults to true.
+ * @param {object} [options.compressionOptions.contentTypeOptions] - Compressor options per content type.
+ * @param {string} [options.lifeCycleOptions.as] - Whether `accept-encoding` is negotiated before or after the handler. Defaults to 'after'.
  * @param {number} [options.compressionOptions.threshold] - The minimum byte size for a response to be compressed. Defaults to 1024.
+ * @param {number} [options.compressionOptions.minSavings] - The minimum fraction of the body size compression must save, otherwise the original body is sent.
+ * @param {boolean | EntropySamplingOptions} [options.compressionOptions.entropySampling] - Skips bodies whose first bytes look incompressible. Defaults to true.
+ * @param {number} [options.compressionOptions.incompressibleTTL] - How long in seconds incompressible routes and content types are remembered. Defaults to 300.
+ * @param {string} [options.compressionOptions.mode] - How buffered bodies are compressed, 'sync', 'async' or 'worker'. Defaults to 'sync'.
+ * @param {WorkerPoolOptions} [options.compressionOptions.workerPool] - The worker pool used by the 'worker' mode.
+ * @param {boolean | AdaptivePolicy} [options.compressionOptions.adaptive] - Chooses the compression level per response from its size and the server load.
+ * @param {number} [options.compressionOptions.streamThreshold] - The byte size above which buffered bodies are streamed. Defaults to 1 MiB.
+ * @param {CompressibleTypes} [options.compressionOptions.compressibleTypes] - The content types to compress.
+ * @param {StatusCodes} [options.compressionOptions.statusCodes] - The status codes of the responses to compress. Defaults to 2xx.
+ * @param {Function} [options.compressionOptions.filter] - Decides whether a response should be compressed.
+ * @param {RouteCompressionOptions[]} [options.compressionOptions.routes] - Compression options overridden per route.
+ * @param {string} [options.compressionOptions.etag] - How ETags of compressed responses are altered, 'suffix' or 'weak'. Defaults to 'suffix'.
+ * @param {Function} [options.compressionOptions.onSkip] - Called with the reason whenever a response is not compressed.
+ * @param {DictionaryStore} [options.compressionOptions.dictionaries] - The shared dictionaries used to compress responses as 'dcb' or 'dcz'.
+ * @param {boolean | BreachOptions} [options.compressionOptions.breach] - Mitigates BREACH attacks on responses mixing secrets and user input. Defaults to false.
+ * @param {Function} [options.compressionOptions.onCompress] - Called with the encoding, byte sizes and duration whenever a response is compressed.
  * @param {number} [options.cacheOptions.TTL] - The time-to-live for the cache. Defaults to 24 hours.
- * @returns {Middleware} - The Tirne compression middleware.
+ * @param {Function} [options.cacheOptions.cacheKey] - Computes the cache key of a response instead of hashing its body.
+ * @param {number} [options.cacheOptions.staleWhileRevalidate] - How long in seconds a cached body may be served after its TTL while recompressed. Defaults to 0.
+ * @param {object} [options.cacheOptions.backgroundLevel] - Compression levels applied in the background to cached bodies, per encoding.
+ * @param {CacheStore | false} [options.cacheOptions.cache] - The store for compressed bodies, `false` disables caching. Defaults to an in-memory LRU cache per instance.
+ * @returns {Middleware} - The vafast compression middleware, with a `warm` method precomputing cached bodies.
  */
 export const compression = (
   options?: CompressionOptions & LifeCycleOptions & CacheOptions,
 ) => {
-  const zlibOptions: ZlibOptions = {
-    ...{
-      level: 6,
-    },
-    ...options?.zlibOptions,
-  }
-  const brotliOptions: BrotliOptions = {
-    ...{
-      params: {
-        [constants.BROTLI_PARAM_MODE]: constants.BROTLI_MODE_GENERIC,
-        [constants.BROTLI_PARAM_QUALITY]: constants.BROTLI_DEFAULT_QUALITY,
-      },
-    },
-    ...options?.brotliOptions,
-  }
-  const defaultEncodings = options?.encodings ?? ['br', 'gzip', 'deflate']
-  const defaultCompressibleTypes =
-    /^text\/(?!event-stream)|(?:\+|\/)json(?:;|$)|(?:\+|\/)text(?:;|$)|(?:\+|\/)xml(?:;|$)|octet-stream(?:;|$)/u
+  const defaultProfile = createProfile(options)
+  const routeProfiles = (options?.routes ?? []).map(
+    ({ path, ...routeOptions }) => ({
+      path,
+      profile: createProfile({ ...options, ...routeOptions }),
+    }),
+  )
   const lifeCycleType = options?.as ?? 'after'
-  const threshold = options?.threshold ?? 1024
   const cacheTTL = options?.TTL ?? 24 * 60 * 60 // 24 hours
+  const cacheStore =
+    options?.cache === false
+      ? undefined
+      : (options?.cache ??
+        new MemCache<Buffer>({
+          maxEntries: options?.maxCacheEntries,
+          maxSize: options?.maxCacheSize,
+        }))
+  const staleWhileRevalidate = options?.staleWhileRevalidate ?? 0
+  const backgroundLevel = options?.backgroundLevel
+  const refreshing = new Set<string>()
   const disableByHeader = options?.disableByHeader ?? true
   const compressStream = options?.compressStream ?? true
+  const etagMode = options?.etag ?? 'suffix'
+  let workerPool: WorkerPool | undefined
+  const adaptivePolicy = options?.adaptive
+    ? createAdaptivePolicy(options.adaptive === true ? {} : options.adaptive)
+    : undefined
+  const loadMonitor = adaptivePolicy ? createLoadMonitor() : undefined
+  const derivedProfiles = new WeakMap<
+    CompressionProfile,
+    Map<string, CompressionProfile>
+  >()
+  const dictionaryStore = options?.dictionaries
+  const dictionaryProfiles = new WeakMap<
+    StoredDictionary,
+    Map<CompressionProfile, CompressionProfile>
+  >()
+  const breach = options?.breach
+    ? options.breach === true
+      ? {}
+      : options.breach
+    : undefined
+  const breachMarker = breach?.marker ?? 'x-compression-sensitive'
+  const maxPadding = breach?.padding ?? 32
+  const incompressibleTTL = options?.incompressibleTTL ?? 5 * 60 // 5 minutes
+  // Routes and content types whose bodies recently turned out incompressible
+  const incompressible =
+    incompressibleTTL > 0
+      ? new MemCache<boolean>({ maxEntries: 1000 })
+      : undefined
+
+  /**
+   * Resolves the compression settings for a request, using the first matching route override.
+   *
+   * @param {Request} req - The request being handled.
+   * @returns {CompressionProfile} The compression settings.
+   */
+  const resolveProfile = (req: Request): CompressionProfile => {
+    if (routeProfiles.length < 1) {
+      return defaultProfile
+    }
+
+    const pathname = new URL(req.url).pathname
+    return (
+      routeProfiles.find(({ path }) => matchesRoute(pathname, path))?.profile ??
+      defaultProfile
+    )
+  }
+
+  /**
+   * Derives compression settings from others, reusing previously derived
+   * settings with the same key.
+   *
+   * @param {CompressionProfile} profile - The compression settings to derive from.
+   * @param {string} key - Identifies the derivation.
+   * @param {(options: CompressionOptions) => CompressionOptions} derive - Derives the compression options.
+   * @returns {CompressionProfile} The derived compression settings.
+   */
+  const deriveProfile = (
+    profile: CompressionProfile,
+    key: string,
+    derive: (options: CompressionOptions) => CompressionOptions,
+  ): CompressionProfile => {
+    let profiles = derivedProfiles.get(profile)
+    if (!profiles) {
+      profiles = new Map()
+      derivedProfiles.set(profile, profiles)
+    }
+
+    let derived = profiles.get(key)
+    if (!derived) {
+      derived = createProfile(derive(profile.options))
+      profiles.set(key, derived)
+    }
+    return derived
+  }
+
+  /**
+   * Derives compression settings using another level for an encoding.
+   *
+   * @param {CompressionProfile} profile - The compression settings to derive from.
+   * @param {CompressionEncoding} encoding - The encoding whose level is changed.
+   * @param {number} level - The compression level.
+   * @returns {CompressionProfile} The derived compression settings.
+   */
+  const levelProfile = (
+    profile: CompressionProfile,
+    encoding: CompressionEncoding,
+    level: number,
+  ): CompressionProfile =>
+    deriveProfile(profile, `level:${encoding}:${level}`, (profileOptions) =>
+      withLevel(profileOptions, encoding, level),
+    )
+
+  /**
+   * Derives compression settings tuned for the content type and size of a
+   * response.
+   *
+   * @param {CompressionProfile} profile - The compression settings to derive from.
+   * @param {string} contentType - The `Content-Type` of the response.
+   * @param {number} [size] - The byte size of the body, when known.
+   * @returns {CompressionProfile} The tuned compression settings.
+   */
+  const tunedProfile = (
+    profile: CompressionProfile,
+    contentType: string,
+    size?: number,
+  ): CompressionProfile => {
+    const tuning = resolveTuning(profile.options, contentType, size)
+    return deriveProfile(
+      profile,
+      `tuning:${tuning.brotliMode}:${tuning.sizeBits}:${tuning.contentType}`,
+      (profileOptions) => withTuning(profileOptions, tuning),
+    )
+  }
+
+  /**
+   * Derives compression settings compressing with a shared dictionary, reusing
+   * previously derived settings for as long as the dictionary is kept.
+   *
+   * @param {CompressionProfile} profile - The compression settings to derive from.
+   * @param {'br' | 'zstd'} encoding - The encoding compressing with the dictionary.
+   * @param {StoredDictionary} dictionary - The shared dictionary.
+   * @returns {CompressionProfile} The derived compression settings.
+   */
+  const dictionaryProfile = (
+    profile: CompressionProfile,
+    encoding: 'br' | 'zstd',
+    dictionary: StoredDictionary,
+  ): CompressionProfile => {
+    let profiles = dictionaryProfiles.get(dictionary)
+    if (!profiles) {
+      profiles = new Map()
+      dictionaryProfiles.set(dictionary, profiles)
+    }
+
+    let derived = profiles.get(profile)
+    if (!derived) {
+      derived = createProfile(
+        withDictionary(profile.options, encoding, dictionary.content),
+      )
+      profiles.set(profile, derived)
+    }
+    return derived
+  }
+
+  /**
+   * Compresses a buffer on the event loop, the libuv thread pool or a worker
+   * thread depending on the `mode` option.
+   *
+   * @param {CompressionProfile} profile - The compression settings to use.
+   * @param {CompressionEncoding} algorithm - The compression algorithm to use.
+   * @param {ArrayBuffer} buffer - The buffer to compress.
+   * @returns {Promise<Buffer>} The compressed buffer.
+   */
+  const compress = async (
+    {
+      options,
+      compressors,
+      asyncCompressors,
+      compressorOptions,
+    }: CompressionProfile,
+    algorithm: CompressionEncoding,
+    buffer: ArrayBuffer,
+  ): Promise<Buffer> => {
+    const mode = options.mode ?? 'sync'
+
+    if (mode === 'worker') {
+      workerPool ??= createWorkerPool(options.workerPool)
+      const task = workerPool.compress(
+        algorithm,
+        new Uint8Array(buffer),
+        compressorOptions[algorithm],
+      )
+      // The queue is full, compress on the libuv thread pool instead
+      return task ?? asyncCompressors[algorithm](buffer)
+    }
+
+    return mode === 'async'
+      ? asyncCompressors[algorithm](buffer)
+      : compressors[algorithm](buffer)
+  }
 
-  const compressors = {
-    br: (buffer: ArrayBuffer) => brotliCompressSync(buffer, brotliOptions),
-    gzip: (buffer: ArrayBuffer) => gzipSync(buffer, zlibOptions),
-    deflate: (buffer: ArrayBuffer) => deflateSync(buffer, zlibOptions),
-  } as Record<CompressionEncoding, (buffer: ArrayBuffer) => Buffer>
-  const textDecoder = new TextDecoder()
+  /**
+   * Compresses a buffer off the event loop, on the libuv thread pool or in a
+   * worker thread with the `worker` mode.
+   *
+   * @param {CompressionProfile} profile - The compression settings to use.
+   * @param {CompressionEncoding} algorithm - The compression algorithm to use.
+   * @param {ArrayBuffer} buffer - The buffer to compress.
+   * @returns {Promise<Buffer>} The compressed buffer.
+   */
+  const compressInBackground = (
+    profile: CompressionProfile,
+    algorithm: CompressionEncoding,
+    buffer: ArrayBuffer,
+  ): Promise<Buffer> =>
+    profile.options.mode === 'worker'
+      ? compress(profile, algorithm, buffer)
+      : profile.asyncCompressors[algorithm](buffer)
+
+  /**
+   * Computes the cache key of a compressed body.
+   *
+   * @param {CompressionProfile} profile - The compression settings to use.
+   * @param {CompressionEncoding} algorithm - The compression algorithm to use.
+   * @param {ArrayBuffer} buffer - The buffer to compress.
+   * @param {Request} req - The request being handled.
+   * @param {Response} response - The uncompressed response.
+   * @returns {string} The cache key.
+   */
+  const cacheKeyOf = (
+    profile: CompressionProfile,
+    algorithm: CompressionEncoding,
+    buffer: ArrayBuffer,
+    req: Request,
+    response: Response,
+  ): string => {
+    // Hash the raw bytes unless the user supplies a key for this response
+    const key =
+      options?.cacheKey?.(req, response) ??
+      createHash('md5').update(new Uint8Array(buffer)).digest('hex')
+    return `${algorithm}:${profile.fingerprints[algorithm]}:${key}`
+  }
+
+  /**
+   * Computes the key under which compression outcomes are remembered, the
+   * request path and media type.
+   *
+   * @param {Request} req - The request being handled.
+   * @param {string} contentType - The `Content-Type` of the response.
+   * @returns {string} The outcome key.
+   */
+  const outcomeKeyOf = (req: Request, contentType: string): string =>
+    `${new URL(req.url).pathname} ${mediaTypeOf(contentType)}`
+
+  /**
+   * Compresses a body in the background and stores it in the cache, with the
+   * background level of the algorithm if any. Concurrent refreshes of a key are
+   * skipped.
+   *
+   * @param {string} cacheKey - The cache key of the body.
+   * @param {CompressionProfile} profile - The compression settings to use.
+   * @param {CompressionEncoding} algorithm - The compression algorithm to use.
+   * @param {ArrayBuffer} buffer - The buffer to compress.
+   * @returns {Promise<void>} Resolves once the body is stored.
+   */
+  const refresh = async (
+    cacheKey: string,
+    profile: CompressionProfile,
+    algorithm: CompressionEncoding,
+    buffer: ArrayBuffer,
+  ): Promise<void> => {
+    if (!cacheStore || refreshing.has(cacheKey)) {
+      return
+    }
+
+    const level = backgroundLevel?.[algorithm]
+    const target =
+      level === undefined ? profile : levelProfile(profile, algorithm, level)
+
+    refreshing.add(cacheKey)
+    try {
+      const output = await compressInBackground(target, algorithm, buffer)
+      await cacheStore.set(cacheKey, output, cacheTTL, staleWhileRevalidate)
+    } finally {
+      refreshing.delete(cacheKey)
+    }
+  }
 
   /**
    * Gets or compresses the response body based on the client's accept-encoding header.
    *
+   * Stale bodies are served while being recompressed in the background, and
+   * freshly compressed ones are recompressed with the background level if any.
+   *
+   * @param {CompressionProfile} profile - The compression settings to use.
    * @param {CompressionEncoding} algorithm - The compression algorithm to use.
    * @param {ArrayBuffer} buffer - The buffer to compress.
-   * @returns {Buffer} The compressed buffer.
+   * @param {Request} req - The request being handled.
+   * @param {Response} response - The uncompressed response.
+   * @returns {Promise<{ output: Buffer, cached?: boolean }>} The compressed buffer, and whether it came from the cache.
    */
-  const getOrCompress = (
+  const getOrCompress = async (
+    profile: CompressionProfile,
     algorithm: CompressionEncoding,
     buffer: ArrayBuffer,
-  ): Buffer => {
-    const cacheKey = createHash('md5').update(`${algorithm}:${textDecoder.decode(buffer)}`).digest('hex')
-    if (cacheStore.has(cacheKey)) {
-      return cacheStore.get(cacheKey)
+    req: Request,
+    response: Response,
+  ): Promise<{ output: Buffer; cached?: boolean }> => {
+    if (!cacheStore) {
+      return { output: await compress(profile, algorithm, buffer) }
+    }
+
+    const cacheKey = cacheKeyOf(profile, algorithm, buffer, req, response)
+    let cached: CachedValue<Buffer> | undefined
+    if (staleWhileRevalidate > 0 && cacheStore.getStale) {
+      cached = await cacheStore.getStale(cacheKey)
+    } else {
+      const value = await cacheStore.get(cacheKey)
+      cached = value ? { value, stale: false } : undefined
+    }
+
+    if (cached) {
+      if (cached.stale) {
+        // A failed refresh keeps serving the stale body until it expires
+        refresh(cacheKey, profile, algorithm, buffer).catch(() => undefined)
+      }
+      return { output: cached.value, cached: true }
+    }
+
+    const compressedOutput = await compress(profile, algorithm, buffer)
+    await cacheStore.set(
+      cacheKey,
+      compressedOutput,
+      cacheTTL,
+      staleWhileRevalidate,
+    )
+    if (backgroundLevel?.[algorithm] !== undefined) {
+      refresh(cacheKey, profile, algorithm, buffer).catch(() => undefined)
+    }
+    return { output: compressedOutput, cached: false }
+  }
+
+  /**
+   * Precomputes the compressed bodies of a response in the cache, e.g. at
+   * startup for known hot endpoints, with the background level if any.
+   *
+   * @param {string | URL | Request | Response} target - A URL to fetch, or the response to warm.
+   * @param {WarmOptions} [warmOptions] - The warming options.
+   * @returns {Promise<void>} Resolves once the compressed bodies are stored.
+   */
+  const warm = async (
+    target: string | URL | Request | Response,
+    warmOptions?: WarmOptions,
+  ): Promise<void> => {
+    let req: Request
+    let response: Response
+
+    if (target instanceof Response) {
+      req = new Request(new URL(warmOptions?.path ?? '/', 'http://localhost'))
+      response = target
+    } else {
+      // `fetch` of the server itself ignores the origin, a network fetch can't
+      const base =
+        warmOptions?.baseURL ??
+        (warmOptions?.fetch ? 'http://localhost' : undefined)
+      if (!(target instanceof Request) && !URL.canParse(target, base)) {
+        throw new TypeError(
+          `Cannot warm '${target}' without the baseURL or fetch option`,
+        )
+      }
+
+      const headers = new Headers(
+        target instanceof Request ? target.headers : undefined,
+      )
+      headers.set('accept-encoding', 'identity')
+      req = new Request(
+        target instanceof Request ? target : new URL(target, base),
+        { headers },
+      )
+      response = await (warmOptions?.fetch ?? fetch)(req)
+    }
+
+    if (!cacheStore || !response.ok) {
+      return
+    }
+
+    const contentType = response.headers.get('Content-Type') ?? ''
+    const buffer = await response.clone().arrayBuffer()
+    const profile = tunedProfile(
+      resolveProfile(req),
+      contentType,
+      buffer.byteLength,
+    )
+    if (
+      buffer.byteLength < profile.threshold ||
+      !profile.isCompressible(contentType)
+    ) {
+      return
     }
 
-    const compressedOutput = compressors[algorithm](buffer)
-    cacheStore.set(cacheKey, compressedOutput, cacheTTL)
-    return compressedOutput
+    await Promise.all(
+      (warmOptions?.encodings ?? profile.encodings)
+        .filter((algorithm) => profile.encodings.includes(algorithm))
+        .map((algorithm) => {
+          // Warm the level requests get while the server is not saturated, for
+          // a synthetic Accept-Encoding accepting the warmed encoding only, as
+          // the request fetching the response asks for `identity`
+          const acceptEncoding = `${algorithm}, identity;q=0`
+          const decision = adaptivePolicy?.(
+            {
+              encoding: algorithm,
+              size: buffer.byteLength,
+              contentType,
+              cacheable: isCacheable(response),
+              load: { eventLoopLag: 0, inFlight: 0 },
+              req,
+              response,
+            },
+            acceptEncoding,
+            profile.encodings,
+          )
+          const leveled =
+            decision && decision.level !== undefined
+              ? levelProfile(profile, algorithm, decision.level)
+              : profile
+
+          return refresh(
+            cacheKeyOf(leveled, algorithm, buffer, req, response),
+            leveled,
+            algorithm,
+            buffer,
+          )
+        }),
+    )
   }
 
   /**
@@ -95,62 +705,253 @@ export const compression = (
    * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Content-Encoding
    * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Content-Type
    */
-  return defineMiddleware<object>(async (req, next) => {
+  const middleware = defineMiddleware<object>(async (req, next) => {
+    /**
+     * Returns the response untouched, reporting why it was not compressed.
+     *
+     * @param {SkipReason} reason - Why the response is not compressed.
+     * @param {Response} response - The response sent as-is.
+     * @returns {Response} The given response.
+     */
+    const skip = (reason: SkipReason, response: Response): Response => {
+      options?.onSkip?.(reason, req, response)
+      return response
+    }
+
+    /**
+     * Responds with `406 Not Acceptable`, as the client refused every coding we
+     * can produce, including identity.
+     *
+     * @param {Response} [response] - The handler response, not available when deciding before the handler.
+     * @returns {Response} The `406 Not Acceptable` response.
+     */
+    const notAcceptable = (response?: Response): Response => {
+      const notAcceptableResponse = new Response(null, {
+        status: 406,
+        headers: { Vary: 'accept-encoding' },
+      })
+      options?.onSkip?.(
+        'not-acceptable',
+        req,
+        response ?? notAcceptableResponse,
+      )
+      return notAcceptableResponse
+    }
+
     // Disable compression when `x-no-compression` header is set
     if (disableByHeader && req.headers.get('x-no-compression')) {
-      return next()
+      return skip('disabled-by-header', await next())
     }
 
-    const response = await next()
+    // HEAD responses have no body to compress
+    if (req.method === 'HEAD') {
+      return skip('head-request', await next())
+    }
 
-    // Don't compress if response is not ok
-    if (!response.ok) {
-      return response
+    const profile = resolveProfile(req)
+    const acceptEncoding = req.headers.get('accept-encoding')
+
+    // Negotiate before running the handler, so refused requests never reach it
+    const early =
+      lifeCycleType === 'before'
+        ? negotiateEncoding(acceptEncoding, profile.encodings)
+        : undefined
+
+    if (early === null) {
+      return notAcceptable()
+    }
+    if (early !== undefined) {
+      negotiatedEncodings.set(req, early)
     }
 
-    const acceptEncodings: string[] =
-      req.headers.get('accept-encoding')?.split(', ') ?? []
-    const encodings: string[] = defaultEncodings.filter((encoding) =>
-      acceptEncodings.includes(encoding),
-    )
+    let response = await next()
 
-    if (encodings.length < 1) {
-      return response
+    // The sensitivity marker is meant for this middleware only
+    const marked = breach !== undefined && response.headers.has(breachMarker)
+    if (marked) {
+      const headers = new Headers(response.headers)
+      headers.delete(breachMarker)
+      response = new Response(response.body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+      })
     }
 
-    const encoding = encodings[0] as CompressionEncoding
-    let compressed: Buffer | ReadableStream<Uint8Array>
-    const contentType = response.headers.get('Content-Type') ?? ''
+    // 204 and 304 responses never carry a body
+    if (response.status === 204 || response.status === 304) {
+      return skip('no-content', response)
+    }
+
+    // Only compress the configured statuses, 2xx by default
+    if (!profile.isCompressibleStatus(response.status)) {
+      return skip('status', response)
+    }
+
+    // Compressing a byte range would leave a `Content-Range` describing another representation
+    if (response.headers.has('Content-Range')) {
+      return skip('partial-content', response)
+    }
+
+    // Never encode a body twice, e.g. a pre-gzipped file sent by a handler
+    const contentEncoding = response.headers.get('Content-Encoding')
+    if (contentEncoding && contentEncoding.toLowerCase() !== 'identity') {
+      return skip('already-encoded', response)
+    }
 
     /**
-     * Compress ReadableStream Object if stream exists (SSE)
+     * Intermediaries must not transform the representation when `no-transform` is set
      *
-     * @see https://developer.mozilla.org/en-US/docs/Web/API/ReadableStream
+     * @see https://www.rfc-editor.org/rfc/rfc9111#section-5.2.2.6
      */
-    if (compressStream && response.body instanceof ReadableStream) {
-      const stream = response.body as ReadableStream
-      compressed = stream.pipeThrough(CompressionStream(encoding, options))
-    } else {
-      // Clone the response to avoid consuming the body
-      const clonedResponse = response.clone()
-      const buffer = (await clonedResponse.arrayBuffer()) as ArrayBuffer
+    const cacheControl = response.headers.get('Cache-Control') ?? ''
+    if (/(?:^|,)\s*no-transform\s*(?:,|$)/iu.test(cacheControl)) {
+      return skip('no-transform', response)
+    }
+
+    if (options?.filter && !options.filter(req, response)) {
+      return skip('filter', response)
+    }
+
+    // Compressing secrets along with reflected input leaks them through the length
+    if (marked || breach?.sensitive?.(req, response)) {
+      return skip('sensitive', response)
+    }
+
+    const negotiated =
+      early ?? negotiateEncoding(acceptEncoding, profile.encodings)
+
+    if (negotiated === null) {
+      return notAcceptable(response)
+    }
+
+    if (negotiated === 'identity') {
+      return skip('no-encoding', response)
+    }
+
+    const contentType = response.headers.get('Content-Type') ?? ''
+    // Server-Sent Events are compressed as streams only
+    const isEventStream = /^text\/event-stream/iu.test(contentType)
+
+    // Disable compression when Content-Type is not compressible
+    // If no Content-Type, assume it's compressible (text/plain)
+    if (
+      !(isEventStream && compressStream) &&
+      !profile.isCompressible(contentType)
+    ) {
+      return skip('content-type', response)
+    }
+
+    let buffer: ArrayBuffer | undefined
+    const contentLength = response.headers.get('Content-Length')
+    // An invalid Content-Length is ignored, the body being peeked as any other
+    let size =
+      contentLength !== null && /^\s*\d+\s*$/u.test(contentLength)
+        ? Number(contentLength)
+        : undefined
+    let isStream = false
+
+    // Every body is a stream, only those of unknown size may really be one
+    if (compressStream && response.body && size === undefined) {
+      // Waiting for `threshold` bytes would hold back streams meant to flush early
+      if (isEventStream || profile.options.flush) {
+        isStream = true
+      } else {
+        const peeked = await peekBody(response.body, profile.threshold)
+        response = new Response(peeked, response)
+
+        if (peeked instanceof ArrayBuffer) {
+          buffer = peeked
+          size = peeked.byteLength
+        } else {
+          isStream = true
+        }
+      }
+    }
+
+    if (!isStream) {
+      // Bodies known to exceed the stream threshold are streamed without reading them
+      if (size === undefined || size <= profile.streamThreshold) {
+        // Clone the response to avoid consuming the body
+        buffer ??= (await response.clone().arrayBuffer()) as ArrayBuffer
+        size = buffer.byteLength
+      }
 
       // Disable compression when buffer size is less than threshold
-      if (buffer.byteLength < threshold) {
-        return response
+      if (size < profile.threshold) {
+        return skip('threshold', response)
       }
+    }
 
-      // Disable compression when Content-Type is not compressible
-      // If no Content-Type, assume it's compressible (text/plain)
-      const isCompressible =
-        !contentType || defaultCompressibleTypes.test(contentType)
-      if (!isCompressible) {
-        return response
+    if (buffer) {
+      // Don't try again to compress what recently proved incompressible
+      const outcomeKey = outcomeKeyOf(req, contentType)
+      if (incompressible?.has(outcomeKey)) {
+        return skip('incompressible', response)
       }
 
-      compressed = getOrCompress(encoding, buffer) // Will try cache first
+      if (profile.isIncompressible?.(buffer)) {
+        incompressible?.set(outcomeKey, true, incompressibleTTL)
+        return skip('incompressible', response)
+      }
+
+      // Large bodies are streamed, keeping the event loop free while compressing
+      if (buffer.byteLength > profile.streamThreshold) {
+        buffer = undefined
+      }
+    }
+
+    let encoding: CompressionEncoding = negotiated
+    let target = tunedProfile(profile, contentType, size)
+
+    if (adaptivePolicy && loadMonitor) {
+      const decision = adaptivePolicy(
+        {
+          encoding,
+          size,
+          contentType,
+          cacheable: isCacheable(response),
+          load: loadMonitor.load(),
+          req,
+          response,
+        },
+        acceptEncoding,
+        profile.encodings,
+      )
+
+      if (!decision) {
+        return skip('saturated', response)
+      }
+
+      encoding = decision.encoding
+      if (decision.level !== undefined) {
+        target = levelProfile(target, encoding, decision.level)
+      }
     }
 
+    // Compress against a shared dictionary the client announced it holds
+    const dictionary = dictionaryStore?.find(req)
+    let dictionaryEncoding: DictionaryEncoding | undefined
+
+    if (dictionary) {
+      const accepted = negotiateEncoding(
+        acceptEncoding,
+        (['dcb', 'dcz'] as const).filter(
+          (candidate) =>
+            profile.encodings.includes(dictionaryAlgorithms[candidate]) &&
+            isDictionaryEncodingSupported(candidate),
+        ),
+      )
+
+      if (accepted === 'dcb' || accepted === 'dcz') {
+        dictionaryEncoding = accepted
+        encoding = dictionaryAlgorithms[accepted]
+        target = dictionaryProfile(target, encoding, dictionary)
+      }
+    }
+
+    const coding = dictionaryEncoding ?? encoding
+
     /**
      * Send Vary HTTP Header
      *
@@ -162,6 +963,9 @@ export const compression = (
      */
     const headers = new Headers(response.headers)
     const vary = headers.get('Vary')
+    const varyOn = dictionaryStore?.matches(req)
+      ? ['accept-encoding', 'available-dictionary']
+      : ['accept-encoding']
 
     if (vary) {
       const rawHeaderValue = vary
@@ -178,21 +982,211 @@ export const compression = (
         headers.set(
           'Vary',
           headerValueArray
-            .concat('accept-encoding')
+            .concat(varyOn)
             .filter((value, index, array) => array.indexOf(value) === index)
             .join(', '),
         )
       }
     } else {
-      headers.set('Vary', 'accept-encoding')
+      headers.set('Vary', varyOn.join(', '))
     }
 
-    headers.set('Content-Encoding', encoding)
+    headers.set('Content-Encoding', coding)
+
+    // Let clients fetch the dictionaries they don't have yet
+    const link = dictionaryStore?.link(req)
+    if (link) {
+      headers.append('Link', link)
+    }
+
+    // Later requests may be compressed against this body
+    const useAsDictionary = dictionaryStore?.useAsDictionary(req)
+    if (useAsDictionary) {
+      headers.set('Use-As-Dictionary', useAsDictionary)
+    }
+
+    // Byte ranges of the original body don't apply to the encoded one
+    headers.delete('Accept-Ranges')
+
+    // Random-length padding obscures how well secrets matched reflected input
+    const padding =
+      breach && maxPadding > 0
+        ? createPadding(contentType, maxPadding)
+        : undefined
+
+    /**
+     * The encoded body is a different representation, so it must not share a
+     * strong ETag with the original one
+     *
+     * @see https://www.rfc-editor.org/rfc/rfc9110#section-8.8.3.3
+     */
+    const etag = headers.get('ETag')
+    if (etag) {
+      const encodedETag = encodeETag(
+        etag,
+        coding,
+        etagMode,
+        dictionaryEncoding && dictionary?.hash,
+      )
+
+      if (padding) {
+        // Padded bodies differ on every response, only a weak tag still holds
+        headers.set(
+          'ETag',
+          encodedETag.startsWith('W/') ? encodedETag : `W/${encodedETag}`,
+        )
+      } else {
+        headers.set('ETag', encodedETag)
+
+        // Revalidation of a previously sent encoded representation
+        if (matchesIfNoneMatch(req.headers.get('If-None-Match'), encodedETag)) {
+          await response.body?.cancel()
+          // A 304 has no body to be encoded
+          headers.delete('Content-Length')
+          headers.delete('Content-Encoding')
+          return new Response(null, {
+            status: 304,
+            statusText: 'Not Modified',
+            headers,
+          })
+        }
+      }
+    }
+
+    let compressed: Buffer | ReadableStream<Uint8Array>
+
+    if (buffer) {
+      if (padding) {
+        const padded = new Uint8Array(buffer.byteLength + padding.byteLength)
+        padded.set(new Uint8Array(buffer))
+        padded.set(padding, buffer.byteLength)
+        buffer = padded.buffer
+      }
+
+      if (useAsDictionary) {
+        dictionaryStore?.derive(req, new Uint8Array(buffer))
+      }
+
+      const startedAt = performance.now()
+      const compression = padding
+        ? // Padded bodies differ on every response, caching them is useless
+          compress(target, encoding, buffer).then((output) => ({
+            output,
+            cached: undefined,
+          }))
+        : getOrCompress(target, encoding, buffer, req, response) // Will try cache first
+      const { output, cached } = await (loadMonitor?.track(compression) ??
+        compression)
+      compressed =
+        dictionary && dictionaryEncoding
+          ? Buffer.concat([
+              dictionaryHeader(dictionaryEncoding, dictionary.hash),
+              output,
+            ])
+          : output
+
+      // Send the original body when compressing it was not worth it
+      if (
+        profile.minSavings !== undefined &&
+        compressed.byteLength >= buffer.byteLength * (1 - profile.minSavings)
+      ) {
+        incompressible?.set(
+          outcomeKeyOf(req, contentType),
+          true,
+          incompressibleTTL,
+        )
+        return skip('insufficient-savings', response)
+      }
+      headers.set('Content-Length', String(compressed.byteLength))
+
+      options?.onCompress?.(
+        {
+          encoding: coding,
+          bytesIn: buffer.byteLength,
+          bytesOut: compressed.byteLength,
+          duration: performance.now() - startedAt,
+          cached,
+          streamed: false,
+        },
+        req,
+        response,
+      )
+    } else {
+      /**
+       * Compress ReadableStream Object if stream exists (SSE)
+       *
+       * @see https://developer.mozilla.org/en-US/docs/Web/API/ReadableStream
+       */
+      let stream = response.body as ReadableStream<Uint8Array>
+      if (padding) {
+        stream = stream.pipeThrough(append(padding))
+      }
+      if (useAsDictionary) {
+        const chunks: Uint8Array[] = []
+        stream = stream.pipeThrough(
+          collect(chunks, () =>
+            dictionaryStore?.derive(req, Buffer.concat(chunks)),
+          ),
+        )
+      }
+      // Deliver Server-Sent Events as they are sent rather than when the compressor fills up
+      const flush =
+        target.options.flush ??
+        (/^text\/event-stream/iu.test(contentType) ? 'event' : false)
+      const compressionStream = new CompressionStream(encoding, {
+        ...target.options,
+        flush,
+      })
+      // Dictionary-compressed bodies start with the dictionary hash
+      const compressor =
+        dictionary && dictionaryEncoding
+          ? {
+              writable: compressionStream.writable,
+              readable: compressionStream.readable.pipeThrough(
+                prepend(dictionaryHeader(dictionaryEncoding, dictionary.hash)),
+              ),
+            }
+          : compressionStream
+      const onCompress = options?.onCompress
+
+      if (onCompress) {
+        const startedAt = performance.now()
+        let bytesIn = 0
+        let bytesOut = 0
+
+        // Report once the whole body went through the compressor
+        compressed = stream
+          .pipeThrough(countBytes((bytes) => (bytesIn += bytes)))
+          .pipeThrough(compressor)
+          .pipeThrough(
+            countBytes(
+              (bytes) => (bytesOut += bytes),
+              () =>
+                onCompress(
+                  {
+                    encoding: coding,
+                    bytesIn,
+                    bytesOut,
+                    duration: performance.now() - startedAt,
+                    streamed: true,
+                  },
+                  req,
+                  response,
+                ),
+            ),
+          )
+      } else {
+        compressed = stream.pipeThrough(compressor)
+      }
+      // The compressed length of a stream is unknown until it ends
+      headers.delete('Content-Length')
+    }
 
     // 将 Buffer 转换为 Uint8Array 以兼容 Response body
-    const body = compressed instanceof ReadableStream
-      ? compressed
-      : new Uint8Array(compressed)
+    const body =
+      compressed instanceof ReadableStream
+        ? compressed
+        : new Uint8Array(compressed)
 
     return new Response(body, {
       status: response.status,
@@ -200,4 +1194,6 @@ export const compression = (
       headers,
     })
   })
+
+  return Object.assign(middleware, { warm })
 }
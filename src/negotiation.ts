@@ -0,0 +1,112 @@
+import type { CompressionEncoding } from './types'
+
+/**
+ * A single coding parsed from an `Accept-Encoding` header.
+ */
+export type AcceptedEncoding = {
+  /**
+   * The lower-cased content-coding token, `*` or `identity`.
+   */
+  encoding: string
+
+  /**
+   * The relative weight between 0 and 1, defaults to 1.
+   */
+  q: number
+}
+
+/**
+ * Parses an `Accept-Encoding` header value into a list of codings and their weights.
+ *
+ * Malformed members are ignored, an invalid `q` parameter is treated as a refusal.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc9110#section-12.5.3
+ *
+ * @param {string} header - The raw `Accept-Encoding` header value.
+ * @returns {AcceptedEncoding[]} The parsed codings in header order.
+ */
+export const parseAcceptEncoding = (header: string): AcceptedEncoding[] => {
+  const accepted: AcceptedEncoding[] = []
+
+  for (const member of header.split(',')) {
+    const [token, ...params] = member.split(';')
+    const encoding = token?.trim().toLowerCase()
+    if (!encoding) {
+      continue
+    }
+
+    let q = 1
+    for (const param of params) {
+      const [name, value] = param.split('=')
+      if (name?.trim().toLowerCase() !== 'q') {
+        continue
+      }
+
+      const weight = value?.trim() ?? ''
+      q = /^(?:0(?:\.\d{0,3})?|1(?:\.0{0,3})?)$/u.test(weight)
+        ? Number(weight)
+        : 0
+    }
+
+    accepted.push({ encoding, q })
+  }
+
+  return accepted
+}
+
+/**
+ * Picks the best content-coding for a request.
+ *
+ * The coding with the highest client weight wins, ties are broken by the order of `encodings`.
+ * Explicit refusals (`q=0`) are honored and `*` matches every coding not listed explicitly.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc9110#section-12.5.3
+ *
+ * @param {string | null | undefined} header - The raw `Accept-Encoding` header value.
+ * @param {T[]} encodings - The encodings supported by the server, in order of preference.
+ * @returns {T | 'identity' | null} The encoding to use, `identity` when the body
+ * should be sent as-is, or `null` when nothing is acceptable and a 406 should be sent.
+ */
+export const negotiateEncoding = <T extends string = CompressionEncoding>(
+  header: string | null | undefined,
+  encodings: readonly T[],
+): T | 'identity' | null => {
+  // No header means no preference, keep the representation untouched
+  if (header === null || header === undefined) {
+    return 'identity'
+  }
+
+  const weights = new Map<string, number>()
+  for (const { encoding, q } of parseAcceptEncoding(header)) {
+    // When a coding is listed more than once, keep the first occurrence
+    if (!weights.has(encoding)) {
+      weights.set(encoding, q)
+    }
+  }
+
+  const wildcard = weights.get('*')
+  const weightOf = (encoding: string): number =>
+    weights.get(encoding) ?? wildcard ?? 0
+
+  let best: T | undefined
+  let bestWeight = 0
+  for (const encoding of encodings) {
+    const q = weightOf(encoding)
+    if (q > bestWeight) {
+      best = encoding
+      bestWeight = q
+    }
+  }
+
+  // identity only wins over a coding when the client weighs it explicitly higher
+  const identityWeight = weights.get('identity')
+  if (best && (identityWeight === undefined || bestWeight >= identityWeight)) {
+    return best
+  }
+
+  // identity is always acceptable unless refused explicitly or through `*;q=0`
+  const identityRefused =
+    identityWeight === 0 || (identityWeight === undefined && wildcard === 0)
+
+  return identityRefused ? null : 'identity'
+}
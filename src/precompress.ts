@@ -0,0 +1,307 @@
+import { createHash } from 'node:crypto'
+import {
+  readdir,
+  readFile,
+  stat,
+  unlink,
+  utimes,
+  writeFile,
+} from 'node:fs/promises'
+import { availableParallelism } from 'node:os'
+import { join, relative, resolve, sep } from 'node:path'
+import type {
+  CompressionEncoding,
+  PrecompressOptions,
+  PrecompressResult,
+} from './types'
+import { getMimeType } from './mime'
+import { createProfile } from './profile'
+import { sidecarExtensions } from './static'
+
+/**
+ * The sidecar files recorded for a file in the manifest, by encoding.
+ */
+type ManifestEntry = Partial<
+  Record<
+    CompressionEncoding,
+    {
+      /**
+       * The hash of the file content, the encoding and its compression options.
+       */
+      hash: string
+      /**
+       * Whether a sidecar file was written, as it is skipped when not smaller.
+       */
+      written: boolean
+    }
+  >
+>
+
+type Manifest = Record<string, ManifestEntry>
+
+/**
+ * Converts a glob pattern into a regular expression matching relative paths.
+ *
+ * Supports `**` (any number of directories), `*` and `?` (within a path segment)
+ * and `{a,b}` alternatives.
+ *
+ * @param {string} glob - The glob pattern.
+ * @returns {RegExp} The regular expression.
+ */
+export const globToRegExp = (glob: string): RegExp => {
+  let pattern = ''
+  let alternatives = 0
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i] as string
+
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` matches zero or more directories, a trailing `**` matches everything
+      if (glob[i + 2] === '/') {
+        pattern += '(?:.*/)?'
+        i += 2
+      } else {
+        pattern += '.*'
+        i += 1
+      }
+    } else if (char === '*') {
+      pattern += '[^/]*'
+    } else if (char === '?') {
+      pattern += '[^/]'
+    } else if (char === '{') {
+      pattern += '(?:'
+      alternatives++
+    } else if (char === '}' && alternatives > 0) {
+      pattern += ')'
+      alternatives--
+    } else if (char === ',' && alternatives > 0) {
+      pattern += '|'
+    } else {
+      pattern += char.replace(/[.+^$()|[\]\\]/gu, '\\$&')
+    }
+  }
+
+  return new RegExp(`^${pattern}$`, 'u')
+}
+
+/**
+ * Lists the files of a directory recursively.
+ *
+ * @param {string} directory - The directory to walk.
+ * @returns {Promise<string[]>} The absolute paths of the files.
+ */
+const walk = async (directory: string): Promise<string[]> => {
+  const entries = await readdir(directory, { withFileTypes: true })
+  const files = await Promise.all(
+    entries.map((entry) => {
+      const path = join(directory, entry.name)
+      if (entry.isDirectory()) {
+        return walk(path)
+      }
+      return entry.isFile() ? [path] : []
+    }),
+  )
+
+  return files.flat()
+}
+
+/**
+ * Runs tasks with a limited concurrency.
+ *
+ * @param {T[]} items - The items to process.
+ * @param {number} concurrency - The maximum number of tasks running at once.
+ * @param {(item: T) => Promise<R>} task - The task run for each item.
+ * @returns {Promise<R[]>} The results, in order of the items.
+ */
+const mapConcurrent = async <T, R>(
+  items: T[],
+  concurrency: number,
+  task: (item: T) => Promise<R>,
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length)
+  let next = 0
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await task(items[index] as T)
+    }
+  }
+
+  await Promise.all(
+    Array.from(
+      { length: Math.max(1, Math.min(concurrency, items.length)) },
+      worker,
+    ),
+  )
+  return results
+}
+
+/**
+ * Compresses the files of a directory ahead of time into `.br`, `.gz` and `.zst`
+ * sidecar files, to be served by `serveStatic()`.
+ *
+ * Files are selected with the same content type rules and threshold as the
+ * `compression()` middleware. Sidecar files that wouldn't be smaller than the
+ * original file are not written, and stale ones are removed.
+ *
+ * @param {PrecompressOptions} options - The precompression options.
+ * @returns {Promise<PrecompressResult[]>} The outcome for each selected file.
+ */
+export const precompress = async (
+  options: PrecompressOptions,
+): Promise<PrecompressResult[]> => {
+  const root = resolve(options.root)
+  const profile = createProfile({
+    ...options,
+    encodings: options.encodings ?? ['br', 'gzip'],
+  })
+  // Encodings without sidecar extension (deflate) can't be precompressed
+  const encodings = profile.encodings.filter(
+    (encoding) => sidecarExtensions[encoding],
+  )
+  const include = options.include?.map(globToRegExp)
+  const exclude = options.exclude?.map(globToRegExp) ?? []
+  const concurrency = options.concurrency ?? availableParallelism()
+  const encoderOptions: Record<CompressionEncoding, unknown> = {
+    br: options.brotliOptions,
+    gzip: options.zlibOptions,
+    deflate: options.zlibOptions,
+    zstd: options.zstdOptions,
+  }
+  const manifestPath =
+    options.manifest ?? join(root, '.precompress-manifest.json')
+
+  const manifest: Manifest =
+    options.incremental === 'manifest'
+      ? await readFile(manifestPath, 'utf-8')
+          .then((content) => JSON.parse(content) as Manifest)
+          .catch(() => ({}))
+      : {}
+
+  const sidecars = Object.values(sidecarExtensions)
+  const files = (await walk(root)).filter((path) => {
+    const file = relative(root, path).split(sep).join('/')
+
+    if (
+      path === manifestPath ||
+      sidecars.some((extension) => path.endsWith(extension))
+    ) {
+      return false
+    }
+    if (exclude.some((pattern) => pattern.test(file))) {
+      return false
+    }
+
+    return include
+      ? include.some((pattern) => pattern.test(file))
+      : profile.isCompressible(getMimeType(path))
+  })
+
+  /**
+   * Compresses a file into its sidecar files.
+   *
+   * @param {string} path - The absolute path of the file.
+   * @returns {Promise<PrecompressResult | undefined>} The outcome, `undefined` for files below the threshold.
+   */
+  const compressFile = async (
+    path: string,
+  ): Promise<PrecompressResult | undefined> => {
+    const file = relative(root, path).split(sep).join('/')
+    const stats = await stat(path)
+    if (stats.size < profile.threshold) {
+      return undefined
+    }
+
+    const content = await readFile(path)
+    const result: PrecompressResult = {
+      file,
+      size: stats.size,
+      encodings: {},
+      unchanged: false,
+    }
+
+    let pending: CompressionEncoding[] = encodings
+    if (options.incremental === 'mtime') {
+      const fresh = await Promise.all(
+        encodings.map(async (encoding) => {
+          const sidecar = await stat(path + sidecarExtensions[encoding]).catch(
+            () => undefined,
+          )
+          return sidecar !== undefined && sidecar.mtimeMs >= stats.mtimeMs
+        }),
+      )
+      pending = encodings.filter((_, index) => !fresh[index])
+    } else if (options.incremental === 'manifest') {
+      const contentHash = createHash('sha256').update(content).digest('hex')
+      const previous = manifest[file]
+      const entry: ManifestEntry = {}
+      const fresh = await Promise.all(
+        encodings.map(async (encoding) => {
+          const hash = createHash('sha256')
+            .update(contentHash)
+            .update(encoding)
+            .update(JSON.stringify(encoderOptions[encoding] ?? {}))
+            .digest('hex')
+          const recorded = previous?.[encoding]
+          entry[encoding] = { hash, written: recorded?.written ?? false }
+
+          if (recorded?.hash !== hash) {
+            return false
+          }
+          if (!recorded.written) {
+            return true
+          }
+
+          // Sidecar files deleted since the last run are written again
+          const sidecar = path + sidecarExtensions[encoding]
+          const sidecarStats = await stat(sidecar).catch(() => undefined)
+          if (!sidecarStats) {
+            return false
+          }
+          // The file was rewritten with the same content: touch the sidecar file,
+          // as serveStatic doesn't serve sidecar files older than the original
+          if (sidecarStats.mtimeMs < stats.mtimeMs) {
+            await utimes(sidecar, sidecarStats.atime, stats.mtime)
+          }
+          return true
+        }),
+      )
+      pending = encodings.filter((_, index) => !fresh[index])
+      manifest[file] = entry
+    }
+
+    if (pending.length < 1) {
+      result.unchanged = true
+      return result
+    }
+
+    for (const encoding of pending) {
+      const sidecar = path + sidecarExtensions[encoding]
+      const compressed = await profile.asyncCompressors[encoding](content)
+
+      if (compressed.byteLength < stats.size) {
+        await writeFile(sidecar, compressed)
+        result.encodings[encoding] = compressed.byteLength
+      } else {
+        await unlink(sidecar).catch(() => undefined)
+        result.encodings[encoding] = null
+      }
+
+      const recorded = manifest[file]?.[encoding]
+      if (recorded) {
+        recorded.written = compressed.byteLength < stats.size
+      }
+    }
+
+    return result
+  }
+
+  const results = await mapConcurrent(files, concurrency, compressFile)
+
+  if (options.incremental === 'manifest') {
+    await writeFile(manifestPath, JSON.stringify(manifest, null, 2))
+  }
+
+  return results.filter((result) => result !== undefined)
+}
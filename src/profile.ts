@@ -0,0 +1,376 @@
+import type {
+  CompressionEncoding,
+  CompressionOptions,
+  ContentTypeOptions,
+  StatusCodes,
+} from './types'
+import {
+  BrotliOptions,
+  InputType,
+  ZlibOptions,
+  ZstdOptions,
+  constants,
+  brotliCompressSync,
+  gzipSync,
+  deflateSync,
+} from 'node:zlib'
+import { createHash } from 'node:crypto'
+import { promisify } from 'node:util'
+import zlib from 'node:zlib'
+import {
+  isEncodingSupported,
+  isZstdSupported,
+  resolveBrotliOptions,
+  resolveZlibOptions,
+  resolveZstdOptions,
+} from './compression-stream'
+import { createTypeMatcher, matchesType, mediaTypeOf } from './content-type'
+import { createEntropySampler } from './entropy'
+
+const brotliCompress = promisify(zlib.brotliCompress)
+const gzip = promisify(zlib.gzip)
+const deflate = promisify(zlib.deflate)
+
+/**
+ * Compresses a buffer with zstd on the libuv thread pool.
+ *
+ * Not promisified eagerly, as `zlib.zstdCompress` is missing on older runtimes.
+ *
+ * @param {InputType} buffer - The buffer to compress.
+ * @param {ZstdOptions} [options] - The zstd options.
+ * @returns {Promise<Buffer>} The compressed buffer.
+ */
+const zstdCompress = (buffer: InputType, options?: ZstdOptions) =>
+  new Promise<Buffer>((resolve, reject) =>
+    zlib.zstdCompress(buffer, options ?? {}, (error, result) =>
+      error ? reject(error) : resolve(result),
+    ),
+  )
+
+/**
+ * Creates a short, stable fingerprint of compressor options.
+ *
+ * @param {object} [compressorOptions] - The options passed to the compressor.
+ * @returns {string} The fingerprint.
+ */
+const fingerprint = (compressorOptions?: object): string =>
+  createHash('md5')
+    .update(
+      JSON.stringify(
+        compressorOptions ?? {},
+        // Dictionaries are hashed rather than serialized byte by byte
+        function (this: Record<string, unknown>, key: string, value: unknown) {
+          const original = this[key]
+          return ArrayBuffer.isView(original)
+            ? createHash('md5')
+                .update(original as Uint8Array)
+                .digest('hex')
+            : value
+        },
+      ),
+    )
+    .digest('hex')
+    .slice(0, 8)
+
+/**
+ * Creates a predicate deciding whether responses with a status are compressed.
+ *
+ * @param {StatusCodes} [statusCodes] - The status codes to compress, 2xx by default.
+ * @returns {(status: number) => boolean} The predicate.
+ */
+const createStatusMatcher = (
+  statusCodes: StatusCodes = [[200, 299]],
+): ((status: number) => boolean) => {
+  const matches =
+    typeof statusCodes === 'function'
+      ? statusCodes
+      : (status: number) =>
+          statusCodes.some((code) =>
+            Array.isArray(code)
+              ? status >= code[0] && status <= code[1]
+              : status === code,
+          )
+
+  // Informational, No Content and Not Modified responses never carry a body
+  return (status) =>
+    status >= 200 && status !== 204 && status !== 304 && matches(status)
+}
+
+/**
+ * The resolved compression settings applied to a response.
+ */
+export type CompressionProfile = {
+  options: CompressionOptions
+  encodings: CompressionEncoding[]
+  threshold: number
+  streamThreshold: number
+  minSavings?: number
+  isIncompressible?: (buffer: ArrayBuffer) => boolean
+  isCompressible: (contentType: string) => boolean
+  isCompressibleStatus: (status: number) => boolean
+  compressors: Record<CompressionEncoding, (buffer: InputType) => Buffer>
+  asyncCompressors: Record<
+    CompressionEncoding,
+    (buffer: InputType) => Promise<Buffer>
+  >
+  compressorOptions: Record<CompressionEncoding, object | undefined>
+  fingerprints: Record<CompressionEncoding, string>
+}
+
+/**
+ * Resolves compression options into the settings used to compress a response.
+ *
+ * @param {CompressionOptions} [options] - The compression options.
+ * @returns {CompressionProfile} The resolved settings.
+ */
+export const createProfile = (
+  options?: CompressionOptions,
+): CompressionProfile => {
+  const zlibOptions = resolveZlibOptions(options)
+  const brotliOptions = resolveBrotliOptions(options)
+  const zstdOptions = isZstdSupported ? resolveZstdOptions(options) : undefined
+
+  return {
+    options: options ?? {},
+    // Encodings the runtime can't produce (e.g. zstd on older Node.js) are skipped
+    encodings: (options?.encodings ?? ['br', 'zstd', 'gzip', 'deflate']).filter(
+      isEncodingSupported,
+    ),
+    threshold: options?.threshold ?? 1024,
+    streamThreshold: options?.streamThreshold ?? 1024 * 1024, // 1 MiB
+    minSavings: options?.minSavings,
+    isIncompressible:
+      options?.entropySampling === false
+        ? undefined
+        : createEntropySampler(
+            typeof options?.entropySampling === 'object'
+              ? options.entropySampling
+              : undefined,
+          ),
+    isCompressible: createTypeMatcher(options?.compressibleTypes),
+    isCompressibleStatus: createStatusMatcher(options?.statusCodes),
+    compressors: {
+      br: (buffer: InputType) => brotliCompressSync(buffer, brotliOptions),
+      gzip: (buffer: InputType) => gzipSync(buffer, zlibOptions),
+      deflate: (buffer: InputType) => deflateSync(buffer, zlibOptions),
+      zstd: (buffer: InputType) => zlib.zstdCompressSync(buffer, zstdOptions),
+    },
+    // Run on the libuv thread pool instead of blocking the event loop
+    asyncCompressors: {
+      br: (buffer: InputType) => brotliCompress(buffer, brotliOptions),
+      gzip: (buffer: InputType) => gzip(buffer, zlibOptions),
+      deflate: (buffer: InputType) => deflate(buffer, zlibOptions),
+      zstd: (buffer: InputType) => zstdCompress(buffer, zstdOptions),
+    },
+    // Passed to worker threads, which can't share the compressor closures
+    compressorOptions: {
+      br: brotliOptions,
+      gzip: zlibOptions,
+      deflate: zlibOptions,
+      zstd: zstdOptions,
+    },
+    /**
+     * Fingerprints of the options used by each compressor, so that middleware
+     * instances configured differently never share cache entries.
+     */
+    fingerprints: {
+      br: fingerprint(brotliOptions),
+      gzip: fingerprint(zlibOptions),
+      deflate: fingerprint(zlibOptions),
+      zstd: fingerprint(zstdOptions),
+    },
+  }
+}
+
+/**
+ * Overrides the compression level of an encoding in compression options.
+ *
+ * @param {CompressionOptions} options - The compression options.
+ * @param {CompressionEncoding} encoding - The encoding whose level is changed.
+ * @param {number} level - The brotli quality, zlib level or zstd level.
+ * @returns {CompressionOptions} The compression options with the new level.
+ */
+export const withLevel = (
+  options: CompressionOptions,
+  encoding: CompressionEncoding,
+  level: number,
+): CompressionOptions => {
+  if (encoding === 'br') {
+    return {
+      ...options,
+      brotliOptions: {
+        ...options.brotliOptions,
+        params: {
+          ...options.brotliOptions?.params,
+          [constants.BROTLI_PARAM_QUALITY]: level,
+        },
+      },
+    }
+  }
+
+  if (encoding === 'zstd') {
+    return {
+      ...options,
+      zstdOptions: {
+        ...options.zstdOptions,
+        params: {
+          ...options.zstdOptions?.params,
+          [constants.ZSTD_c_compressionLevel]: level,
+        },
+      },
+    }
+  }
+
+  return { ...options, zlibOptions: { ...options.zlibOptions, level } }
+}
+
+/**
+ * Sets the shared dictionary of an encoding in compression options.
+ *
+ * @param {CompressionOptions} options - The compression options.
+ * @param {'br' | 'zstd'} encoding - The encoding compressing with the dictionary.
+ * @param {Uint8Array} dictionary - The dictionary content.
+ * @returns {CompressionOptions} The compression options with the dictionary.
+ */
+export const withDictionary = (
+  options: CompressionOptions,
+  encoding: 'br' | 'zstd',
+  dictionary: Uint8Array,
+): CompressionOptions =>
+  encoding === 'br'
+    ? {
+        ...options,
+        // Not typed yet, as brotli shared dictionaries are not supported by node:zlib
+        brotliOptions: {
+          ...options.brotliOptions,
+          dictionary,
+        } as BrotliOptions,
+      }
+    : { ...options, zstdOptions: { ...options.zstdOptions, dictionary } }
+
+/**
+ * How compression options are tuned for a response.
+ */
+export type Tuning = {
+  /**
+   * The brotli mode matching the content type.
+   */
+  brotliMode?: number
+
+  /**
+   * The base 2 logarithm of the body size, rounded up.
+   */
+  sizeBits?: number
+
+  /**
+   * The key of the matching `contentTypeOptions` entry.
+   */
+  contentType?: string
+}
+
+const textTypes =
+  /^text\/|^image\/svg\+xml$|[+/](?:json|xml|javascript|ecmascript)$/u
+const fontTypes = /^font\/|^application\/(?:font-|x-font-|vnd\.ms-fontobject$)/u
+
+/**
+ * Decides how compression options are tuned for a response, from its content
+ * type and size.
+ *
+ * @param {CompressionOptions} options - The compression options.
+ * @param {string} contentType - The `Content-Type` of the response.
+ * @param {number} [size] - The byte size of the body, when known.
+ * @returns {Tuning} The tuning.
+ */
+export const resolveTuning = (
+  options: CompressionOptions,
+  contentType: string,
+  size?: number,
+): Tuning => {
+  const contentTypeKey = Object.keys(options.contentTypeOptions ?? {}).find(
+    (pattern) => matchesType(contentType, pattern),
+  )
+
+  if (options.tuning === false) {
+    return { contentType: contentTypeKey }
+  }
+
+  const mediaType = mediaTypeOf(contentType)
+  const brotliMode = fontTypes.test(mediaType)
+    ? constants.BROTLI_MODE_FONT
+    : // Responses without a content type are assumed to be text
+      !mediaType || textTypes.test(mediaType)
+      ? constants.BROTLI_MODE_TEXT
+      : constants.BROTLI_MODE_GENERIC
+
+  return {
+    brotliMode,
+    // Rounded up to a power of 2, so tuned settings are shared between sizes
+    sizeBits:
+      size !== undefined && size > 0 ? Math.ceil(Math.log2(size)) : undefined,
+    contentType: contentTypeKey,
+  }
+}
+
+/**
+ * Applies a tuning to compression options, beneath the parameters set in the
+ * options and the options of the content type.
+ *
+ * @param {CompressionOptions} options - The compression options.
+ * @param {Tuning} tuning - The tuning.
+ * @returns {CompressionOptions} The tuned compression options.
+ */
+export const withTuning = (
+  options: CompressionOptions,
+  { brotliMode, sizeBits, contentType }: Tuning,
+): CompressionOptions => {
+  const typeOptions: ContentTypeOptions | undefined =
+    contentType === undefined
+      ? undefined
+      : options.contentTypeOptions?.[contentType]
+  const brotliParams: Record<number, number> = {}
+  let zlibOptions: ZlibOptions = {}
+
+  if (brotliMode !== undefined) {
+    brotliParams[constants.BROTLI_PARAM_MODE] = brotliMode
+  }
+
+  // Small bodies don't need the default windows, each costing memory per response
+  if (sizeBits !== undefined) {
+    const windowBits = Math.min(Math.max(sizeBits, 9), 15)
+
+    brotliParams[constants.BROTLI_PARAM_SIZE_HINT] = 2 ** sizeBits
+    brotliParams[constants.BROTLI_PARAM_LGWIN] = Math.min(
+      Math.max(sizeBits, constants.BROTLI_MIN_WINDOW_BITS),
+      constants.BROTLI_DEFAULT_WINDOW,
+    )
+    zlibOptions = { windowBits, memLevel: Math.max(windowBits - 7, 1) }
+  }
+
+  return {
+    ...options,
+    brotliOptions: {
+      ...options.brotliOptions,
+      ...typeOptions?.brotliOptions,
+      params: {
+        ...brotliParams,
+        ...options.brotliOptions?.params,
+        ...typeOptions?.brotliOptions?.params,
+      },
+    },
+    zlibOptions: {
+      ...zlibOptions,
+      ...options.zlibOptions,
+      ...typeOptions?.zlibOptions,
+    },
+    zstdOptions: typeOptions?.zstdOptions
+      ? {
+          ...options.zstdOptions,
+          ...typeOptions.zstdOptions,
+          params: {
+            ...options.zstdOptions?.params,
+            ...typeOptions.zstdOptions.params,
+          },
+        }
+      : options.zstdOptions,
+  }
+}
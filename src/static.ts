@@ -0,0 +1,177 @@
+import { readFile, stat } from 'node:fs/promises'
+import { join, resolve, sep } from 'node:path'
+import type { Stats } from 'node:fs'
+import type { CompressionEncoding, RouteHandler, StaticOptions } from './types'
+import { createProfile } from './profile'
+import { encodeETag, matchesIfNoneMatch } from './etag'
+import { getMimeType } from './mime'
+import { negotiateEncoding } from './negotiation'
+
+/**
+ * File extensions of precompressed sidecar files.
+ */
+export const sidecarExtensions: Partial<Record<CompressionEncoding, string>> = {
+  br: '.br',
+  zstd: '.zst',
+  gzip: '.gz',
+}
+
+/**
+ * Gets the stats of a file, `undefined` when it doesn't exist or is not a file.
+ *
+ * @param {string} filePath - The path of the file.
+ * @returns {Promise<Stats | undefined>} The file stats.
+ */
+const statFile = async (filePath: string): Promise<Stats | undefined> => {
+  const stats = await stat(filePath).catch(() => undefined)
+  return stats?.isFile() ? stats : undefined
+}
+
+/**
+ * Creates a handler serving static files, preferring precompressed sidecar files
+ * (`app.js.br`, `app.js.zst`, `app.js.gz`) matching the client's accept-encoding header.
+ *
+ * Sidecar files older than the original file are ignored. When no sidecar file exists,
+ * the original file is sent, or compressed on the fly when `compress` is enabled.
+ *
+ * @param {StaticOptions} options - The static serving options.
+ * @param {string} options.root - The directory to serve files from.
+ * @param {string} [options.prefix] - The URL path prefix removed before resolving files. Defaults to '/'.
+ * @param {string} [options.index] - The file served for directory requests. Defaults to 'index.html'.
+ * @param {CompressionEncoding[]} [options.encodings] - The encodings to look for. Defaults to ['br', 'zstd', 'gzip'].
+ * @param {boolean | CompressionOptions} [options.compress] - Compress files on the fly without sidecar file. Defaults to false.
+ * @param {string} [options.cacheControl] - The `Cache-Control` header sent with every file.
+ * @returns {RouteHandler<Promise<Response>>} The route handler.
+ */
+export const serveStatic = (
+  options: StaticOptions,
+): RouteHandler<Promise<Response>> => {
+  const root = resolve(options.root)
+  const prefix = (options.prefix ?? '/').replace(/\/$/u, '')
+  const index = options.index ?? 'index.html'
+  const encodings = options.encodings ?? ['br', 'zstd', 'gzip']
+  const profile = options.compress
+    ? createProfile(options.compress === true ? undefined : options.compress)
+    : undefined
+
+  /**
+   * Resolves the file requested by a URL path, refusing paths outside of `root`.
+   *
+   * @param {string} pathname - The request path.
+   * @returns {Promise<{ filePath: string, stats: Stats } | undefined>} The file and its stats.
+   */
+  const resolveFile = async (pathname: string) => {
+    if (pathname !== prefix && !pathname.startsWith(`${prefix}/`)) {
+      return undefined
+    }
+
+    let relativePath: string
+    try {
+      relativePath = decodeURIComponent(pathname.slice(prefix.length))
+    } catch {
+      return undefined
+    }
+
+    let filePath = join(root, relativePath)
+    if (filePath !== root && !filePath.startsWith(root + sep)) {
+      return undefined
+    }
+
+    const directory = await stat(filePath).catch(() => undefined)
+    if (directory?.isDirectory()) {
+      filePath = join(filePath, index)
+    }
+
+    const stats = await statFile(filePath)
+    return stats ? { filePath, stats } : undefined
+  }
+
+  return async ({ req }) => {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      return new Response(null, {
+        status: 405,
+        headers: { Allow: 'GET, HEAD' },
+      })
+    }
+
+    const file = await resolveFile(new URL(req.url).pathname)
+    if (!file) {
+      return new Response(null, { status: 404 })
+    }
+
+    const { filePath, stats } = file
+    const contentType = getMimeType(filePath)
+
+    // Sidecar files older than the original are stale and must not be served
+    const sidecars = new Map<CompressionEncoding, string>()
+    for (const encoding of encodings) {
+      const extension = sidecarExtensions[encoding]
+      const sidecar = extension
+        ? await statFile(filePath + extension)
+        : undefined
+      if (sidecar && sidecar.mtimeMs >= stats.mtimeMs) {
+        sidecars.set(encoding, filePath + extension)
+      }
+    }
+
+    const compressible =
+      profile !== undefined &&
+      stats.size >= profile.threshold &&
+      profile.isCompressible(contentType)
+    const available = encodings.filter(
+      (encoding) =>
+        sidecars.has(encoding) ||
+        (compressible && profile.encodings.includes(encoding)),
+    )
+
+    const encoding = negotiateEncoding(
+      req.headers.get('accept-encoding'),
+      available,
+    )
+    if (encoding === null) {
+      return new Response(null, {
+        status: 406,
+        headers: { Vary: 'accept-encoding' },
+      })
+    }
+
+    // Weak validator of the original file, suffixed with the encoding of the variant
+    const fileETag = `W/"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`
+    const etag =
+      encoding === 'identity'
+        ? fileETag
+        : encodeETag(fileETag, encoding, 'suffix')
+    const headers = new Headers({
+      'Content-Type': contentType,
+      'Last-Modified': stats.mtime.toUTCString(),
+      Vary: 'accept-encoding',
+      ETag: etag,
+    })
+    if (options.cacheControl) {
+      headers.set('Cache-Control', options.cacheControl)
+    }
+    if (encoding !== 'identity') {
+      headers.set('Content-Encoding', encoding)
+    }
+
+    if (matchesIfNoneMatch(req.headers.get('If-None-Match'), etag)) {
+      return new Response(null, { status: 304, headers })
+    }
+
+    let body: Buffer
+    const sidecar = encoding === 'identity' ? undefined : sidecars.get(encoding)
+    if (sidecar) {
+      body = await readFile(sidecar)
+    } else if (encoding !== 'identity' && profile) {
+      body = await profile.asyncCompressors[encoding](await readFile(filePath))
+    } else {
+      body = await readFile(filePath)
+    }
+
+    headers.set('Content-Length', String(body.byteLength))
+    return new Response(req.method === 'HEAD' ? null : new Uint8Array(body), {
+      status: 200,
+      headers,
+    })
+  }
+}
@@ -0,0 +1,356 @@
+import type { MemCache } from './cache'
+import type {
+  CompressionEncoding,
+  CompressionEvent,
+  DictionaryEncoding,
+  RouteHandler,
+  SkipReason,
+} from './types'
+
+type ContentEncoding = CompressionEncoding | DictionaryEncoding
+
+/**
+ * Observations grouped into buckets, each count holding the observations lower
+ * than or equal to its bucket and greater than the previous one.
+ */
+export type Histogram = {
+  buckets: number[]
+  counts: number[]
+  sum: number
+  count: number
+}
+
+export type CompressionStatsSnapshot = {
+  /**
+   * The number of compressed responses per encoding.
+   */
+  compressed: Partial<Record<ContentEncoding, number>>
+
+  /**
+   * The number of responses sent uncompressed per reason.
+   */
+  skipped: Partial<Record<SkipReason, number>>
+
+  /**
+   * The uncompressed bytes per encoding.
+   */
+  bytesIn: Partial<Record<ContentEncoding, number>>
+
+  /**
+   * The compressed bytes per encoding.
+   */
+  bytesOut: Partial<Record<ContentEncoding, number>>
+  cacheHits: number
+  cacheMisses: number
+
+  /**
+   * The time spent compressing in milliseconds.
+   */
+  duration: Histogram
+
+  /**
+   * The compressed byte size divided by the uncompressed one.
+   */
+  ratio: Histogram
+}
+
+export type CompressionStatsOptions = {
+  /**
+   * The prefix of the Prometheus metric names.
+   *
+   * @default 'vafast_compress'
+   */
+  prefix?: string
+
+  /**
+   * The upper bounds of the duration histogram buckets, in milliseconds.
+   *
+   * @default [1, 5, 10, 25, 50, 100, 250, 500, 1000]
+   */
+  durationBuckets?: number[]
+
+  /**
+   * The upper bounds of the compression ratio histogram buckets.
+   *
+   * @default [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1]
+   */
+  ratioBuckets?: number[]
+
+  /**
+   * A cache whose size and evictions are exported along with the metrics.
+   */
+  cache?: MemCache
+}
+
+export type CompressionStats = {
+  /**
+   * Records a compressed response, to be passed as the `onCompress` option.
+   */
+  onCompress: (event: CompressionEvent) => void
+
+  /**
+   * Records a response sent uncompressed, to be passed as the `onSkip` option.
+   */
+  onSkip: (reason: SkipReason) => void
+
+  /**
+   * Gets a copy of the collected statistics.
+   */
+  snapshot: () => CompressionStatsSnapshot
+
+  /**
+   * Resets the collected statistics.
+   */
+  reset: () => void
+
+  /**
+   * Formats the statistics in the Prometheus text exposition format.
+   */
+  prometheus: () => string
+
+  /**
+   * A route handler serving the Prometheus metrics.
+   */
+  handler: RouteHandler
+}
+
+/**
+ * Creates an empty histogram.
+ *
+ * @param {number[]} buckets - The upper bounds of the buckets.
+ * @returns {Histogram} The histogram.
+ */
+const createHistogram = (buckets: number[]): Histogram => ({
+  buckets,
+  counts: buckets.map(() => 0),
+  sum: 0,
+  count: 0,
+})
+
+/**
+ * Records an observation in a histogram.
+ *
+ * @param {Histogram} histogram - The histogram.
+ * @param {number} value - The observed value.
+ */
+const observe = (histogram: Histogram, value: number): void => {
+  const index = histogram.buckets.findIndex((bucket) => value <= bucket)
+  if (index !== -1) {
+    histogram.counts[index] = (histogram.counts[index] ?? 0) + 1
+  }
+  histogram.sum += value
+  histogram.count++
+}
+
+/**
+ * Formats a histogram in the Prometheus text exposition format.
+ *
+ * @param {string} name - The metric name.
+ * @param {string} help - The metric description.
+ * @param {Histogram} histogram - The histogram.
+ * @param {number} [divisor=1] - Divides bucket bounds and the sum, e.g. to convert milliseconds to seconds.
+ * @returns {string[]} The formatted lines.
+ */
+const formatHistogram = (
+  name: string,
+  help: string,
+  histogram: Histogram,
+  divisor: number = 1,
+): string[] => {
+  let cumulative = 0
+
+  return [
+    `# HELP ${name} ${help}`,
+    `# TYPE ${name} histogram`,
+    ...histogram.buckets.map((bucket, index) => {
+      cumulative += histogram.counts[index] ?? 0
+      return `${name}_bucket{le="${bucket / divisor}"} ${cumulative}`
+    }),
+    `${name}_bucket{le="+Inf"} ${histogram.count}`,
+    `${name}_sum ${histogram.sum / divisor}`,
+    `${name}_count ${histogram.count}`,
+  ]
+}
+
+/**
+ * Formats a counter or gauge in the Prometheus text exposition format.
+ *
+ * @param {string} name - The metric name.
+ * @param {string} type - The metric type.
+ * @param {string} help - The metric description.
+ * @param {Record<string, number> | number} values - The value, or the values per label value.
+ * @param {string} [label] - The label name of the values.
+ * @returns {string[]} The formatted lines.
+ */
+const formatMetric = (
+  name: string,
+  type: 'counter' | 'gauge',
+  help: string,
+  values: Record<string, number> | number,
+  label?: string,
+): string[] => [
+  `# HELP ${name} ${help}`,
+  `# TYPE ${name} ${type}`,
+  ...(typeof values === 'number'
+    ? [`${name} ${values}`]
+    : Object.entries(values).map(
+        ([key, value]) => `${name}{${label}="${key}"} ${value}`,
+      )),
+]
+
+/**
+ * Creates a collector counting what the compression middleware does, exposing
+ * counters, histograms and Prometheus metrics.
+ *
+ * @param {CompressionStatsOptions} [options] - The collector options.
+ * @returns {CompressionStats} The stats collector.
+ */
+export const createCompressionStats = (
+  options?: CompressionStatsOptions,
+): CompressionStats => {
+  const prefix = options?.prefix ?? 'vafast_compress'
+  const durationBuckets = options?.durationBuckets ?? [
+    1, 5, 10, 25, 50, 100, 250, 500, 1000,
+  ]
+  const ratioBuckets = options?.ratioBuckets ?? [
+    0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1,
+  ]
+
+  /**
+   * Creates empty statistics.
+   *
+   * @returns {CompressionStatsSnapshot} The statistics.
+   */
+  const empty = (): CompressionStatsSnapshot => ({
+    compressed: {},
+    skipped: {},
+    bytesIn: {},
+    bytesOut: {},
+    cacheHits: 0,
+    cacheMisses: 0,
+    duration: createHistogram(durationBuckets),
+    ratio: createHistogram(ratioBuckets),
+  })
+
+  let stats = empty()
+
+  const collector: CompressionStats = {
+    onCompress: ({ encoding, bytesIn, bytesOut, duration, cached }) => {
+      stats.compressed[encoding] = (stats.compressed[encoding] ?? 0) + 1
+      stats.bytesIn[encoding] = (stats.bytesIn[encoding] ?? 0) + bytesIn
+      stats.bytesOut[encoding] = (stats.bytesOut[encoding] ?? 0) + bytesOut
+
+      if (cached === true) {
+        stats.cacheHits++
+      } else if (cached === false) {
+        stats.cacheMisses++
+      }
+
+      observe(stats.duration, duration)
+      if (bytesIn > 0) {
+        observe(stats.ratio, bytesOut / bytesIn)
+      }
+    },
+
+    onSkip: (reason) => {
+      stats.skipped[reason] = (stats.skipped[reason] ?? 0) + 1
+    },
+
+    snapshot: () => structuredClone(stats),
+
+    reset: () => {
+      stats = empty()
+    },
+
+    prometheus: () => {
+      const lines = [
+        ...formatMetric(
+          `${prefix}_responses_total`,
+          'counter',
+          'Compressed responses by encoding.',
+          stats.compressed,
+          'encoding',
+        ),
+        ...formatMetric(
+          `${prefix}_skipped_total`,
+          'counter',
+          'Responses sent uncompressed by reason.',
+          stats.skipped,
+          'reason',
+        ),
+        ...formatMetric(
+          `${prefix}_bytes_in_total`,
+          'counter',
+          'Uncompressed bytes by encoding.',
+          stats.bytesIn,
+          'encoding',
+        ),
+        ...formatMetric(
+          `${prefix}_bytes_out_total`,
+          'counter',
+          'Compressed bytes by encoding.',
+          stats.bytesOut,
+          'encoding',
+        ),
+        ...formatMetric(
+          `${prefix}_cache_hits_total`,
+          'counter',
+          'Compressed bodies served from the cache.',
+          stats.cacheHits,
+        ),
+        ...formatMetric(
+          `${prefix}_cache_misses_total`,
+          'counter',
+          'Compressed bodies missing from the cache.',
+          stats.cacheMisses,
+        ),
+        ...formatHistogram(
+          `${prefix}_duration_seconds`,
+          'Time spent compressing a response.',
+          stats.duration,
+          1000,
+        ),
+        ...formatHistogram(
+          `${prefix}_ratio`,
+          'Compressed size divided by the uncompressed size.',
+          stats.ratio,
+        ),
+      ]
+
+      if (options?.cache) {
+        const { entries, bytes, evictions } = options.cache.stats
+        lines.push(
+          ...formatMetric(
+            `${prefix}_cache_entries`,
+            'gauge',
+            'Entries in the cache.',
+            entries,
+          ),
+          ...formatMetric(
+            `${prefix}_cache_bytes`,
+            'gauge',
+            'Total byte size of the cache entries.',
+            bytes,
+          ),
+          ...formatMetric(
+            `${prefix}_cache_evictions_total`,
+            'counter',
+            'Entries evicted from the cache.',
+            evictions,
+          ),
+        )
+      }
+
+      return `${lines.join('\n')}\n`
+    },
+
+    handler: () =>
+      new Response(collector.prometheus(), {
+        headers: {
+          'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+        },
+      }),
+  }
+
+  return collector
+}
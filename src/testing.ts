@@ -0,0 +1,200 @@
+import assert from 'node:assert/strict'
+import { createHash } from 'node:crypto'
+import zlib from 'node:zlib'
+import type { CompressionEncoding, DictionaryEncoding } from './types'
+import { dictionaryHeader } from './dictionary'
+
+export type DecodeOptions = {
+  /**
+   * The shared dictionary `dcb` and `dcz` bodies were compressed against.
+   */
+  dictionary?: Uint8Array
+}
+
+/**
+ * Decodes a dictionary-compressed body, after checking its header holds the
+ * magic number of the encoding and the hash of the dictionary.
+ *
+ * @param {Buffer} body - The encoded body.
+ * @param {DictionaryEncoding} coding - The dictionary encoding.
+ * @param {DecodeOptions} [options] - The decoding options.
+ * @returns {Buffer} The decoded body.
+ */
+const decodeWithDictionary = (
+  body: Buffer,
+  coding: DictionaryEncoding,
+  options?: DecodeOptions,
+): Buffer => {
+  const dictionary = options?.dictionary
+  if (!dictionary) {
+    throw new TypeError(`Decoding '${coding}' requires the dictionary`)
+  }
+
+  const header = dictionaryHeader(
+    coding,
+    createHash('sha256').update(dictionary).digest(),
+  )
+  if (!body.subarray(0, header.byteLength).equals(header)) {
+    throw new TypeError(
+      `The '${coding}' body doesn't start with the header of the dictionary`,
+    )
+  }
+
+  const encoded = body.subarray(header.byteLength)
+  return coding === 'dcb'
+    ? zlib.brotliDecompressSync(encoded, { dictionary } as zlib.BrotliOptions)
+    : zlib.zstdDecompressSync(encoded, { dictionary } as zlib.ZstdOptions)
+}
+
+/**
+ * Decodes a body compressed with a single content-coding.
+ *
+ * @param {Buffer} body - The encoded body.
+ * @param {string} coding - The content-coding.
+ * @param {DecodeOptions} [options] - The decoding options.
+ * @returns {Buffer} The decoded body.
+ */
+const decode = (
+  body: Buffer,
+  coding: string,
+  options?: DecodeOptions,
+): Buffer => {
+  switch (coding) {
+    case 'identity':
+      return body
+    case 'br':
+      return zlib.brotliDecompressSync(body)
+    case 'gzip':
+    case 'x-gzip':
+      return zlib.gunzipSync(body)
+    case 'deflate':
+      return zlib.inflateSync(body)
+    case 'zstd':
+      return zlib.zstdDecompressSync(body)
+    case 'dcb':
+    case 'dcz':
+      return decodeWithDictionary(body, coding, options)
+    default:
+      throw new TypeError(`Unsupported content-coding: '${coding}'`)
+  }
+}
+
+/**
+ * Asserts that a body holds the expected bytes, without diffing the whole body
+ * in the error message.
+ *
+ * @param {Buffer} body - The body to check.
+ * @param {string | Uint8Array} [expected] - The expected body.
+ */
+const assertBody = (body: Buffer, expected?: string | Uint8Array): void => {
+  if (expected === undefined) {
+    return
+  }
+
+  const bytes = Buffer.from(expected)
+  assert.ok(
+    body.equals(bytes),
+    `Expected a body of ${bytes.byteLength} bytes to match, got ${body.byteLength} bytes`,
+  )
+}
+
+/**
+ * Creates a request accepting the given encodings.
+ *
+ * @param {string} acceptEncoding - The `Accept-Encoding` header, e.g. `'br, gzip'`.
+ * @param {string | URL} [url='/'] - The request URL, or a path on `http://localhost`.
+ * @param {RequestInit} [init] - Other request options, whose headers are kept.
+ * @returns {Request} The request.
+ */
+export const requestWithEncoding = (
+  acceptEncoding: string,
+  url: string | URL = '/',
+  init?: RequestInit,
+): Request => {
+  const headers = new Headers(init?.headers)
+  headers.set('Accept-Encoding', acceptEncoding)
+  return new Request(new URL(url, 'http://localhost'), { ...init, headers })
+}
+
+/**
+ * Decodes a response body by its `Content-Encoding`, removing stacked codings
+ * (e.g. `gzip, br`) in reverse order of application.
+ *
+ * The response is cloned, so its body can still be read.
+ *
+ * @param {Response} response - The response to decode.
+ * @param {DecodeOptions} [options] - The decoding options.
+ * @returns {Promise<Buffer>} The decoded body.
+ */
+export const decodeResponse = async (
+  response: Response,
+  options?: DecodeOptions,
+): Promise<Buffer> => {
+  const codings = (response.headers.get('Content-Encoding') ?? '')
+    .split(',')
+    .map((coding) => coding.trim().toLowerCase())
+    .filter(Boolean)
+
+  return codings.reduceRight<Buffer>(
+    (body, coding) => decode(body, coding, options),
+    Buffer.from(await response.clone().arrayBuffer()),
+  )
+}
+
+/**
+ * Asserts that a response was compressed with an encoding, varies on
+ * `Accept-Encoding` and, when given, decodes to the expected body.
+ *
+ * @param {Response} response - The response to check.
+ * @param {CompressionEncoding | DictionaryEncoding} encoding - The expected encoding.
+ * @param {string | Uint8Array} [expected] - The expected decoded body.
+ * @param {DecodeOptions} [options] - The decoding options.
+ * @returns {Promise<Buffer>} The decoded body.
+ */
+export const expectCompressed = async (
+  response: Response,
+  encoding: CompressionEncoding | DictionaryEncoding,
+  expected?: string | Uint8Array,
+  options?: DecodeOptions,
+): Promise<Buffer> => {
+  assert.equal(
+    response.headers.get('Content-Encoding'),
+    encoding,
+    `Expected the response to be compressed with '${encoding}'`,
+  )
+
+  const vary = (response.headers.get('Vary') ?? '')
+    .split(',')
+    .map((value) => value.trim().toLowerCase())
+  assert.ok(
+    vary.includes('accept-encoding') || vary.includes('*'),
+    `Expected the Vary header to include 'accept-encoding', got '${response.headers.get('Vary')}'`,
+  )
+
+  const body = await decodeResponse(response, options)
+  assertBody(body, expected)
+  return body
+}
+
+/**
+ * Asserts that a response was sent uncompressed and, when given, holds the
+ * expected body.
+ *
+ * @param {Response} response - The response to check.
+ * @param {string | Uint8Array} [expected] - The expected body.
+ * @returns {Promise<Buffer>} The body.
+ */
+export const expectNotCompressed = async (
+  response: Response,
+  expected?: string | Uint8Array,
+): Promise<Buffer> => {
+  const contentEncoding = response.headers.get('Content-Encoding')
+  assert.ok(
+    contentEncoding === null || contentEncoding.toLowerCase() === 'identity',
+    `Expected the response not to be compressed, got '${contentEncoding}'`,
+  )
+
+  const body = Buffer.from(await response.clone().arrayBuffer())
+  assertBody(body, expected)
+  return body
+}
@@ -1,6 +1,272 @@
 import type { Middleware } from 'vafast'
-import type { BrotliOptions, ZlibOptions } from 'node:zlib'
-export type CompressionEncoding = 'br' | 'deflate' | 'gzip'
+import type { BrotliOptions, ZlibOptions, ZstdOptions } from 'node:zlib'
+export type CompressionEncoding = 'br' | 'deflate' | 'gzip' | 'zstd'
+
+/**
+ * The formats of `CompressionStream` and `DecompressionStream`: the web standard
+ * `gzip`, `deflate` and `deflate-raw`, along with `br` and `zstd`.
+ */
+export type CompressionFormat = CompressionEncoding | 'deflate-raw'
+
+/**
+ * The dictionary-compressed encodings of Compression Dictionary Transport:
+ * `dcb` for brotli and `dcz` for zstd.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc9842
+ */
+export type DictionaryEncoding = 'dcb' | 'dcz'
+
+/**
+ * A request handler taking the context vafast route handlers receive, so it can
+ * be passed to `defineRoute` as `handler` directly.
+ */
+export type RouteHandler<T = Response> = (context: { req: Request }) => T
+
+/**
+ * Why a response was sent without compression.
+ *
+ * - `disabled-by-header`: the request carries the `x-no-compression` header
+ * - `head-request`: the request method is `HEAD`
+ * - `no-content`: the response status is 204 or 304
+ * - `status`: the response status is not one of `statusCodes`
+ * - `partial-content`: the response has a `Content-Range`, as it is a byte range
+ * - `already-encoded`: the response already has a `Content-Encoding`
+ * - `no-transform`: the response has `Cache-Control: no-transform`
+ * - `not-acceptable`: the client refused every encoding, including identity
+ * - `no-encoding`: the client accepts none of the configured encodings
+ * - `threshold`: the body is smaller than the threshold
+ * - `content-type`: the content type is not compressible
+ * - `filter`: the `filter` option returned `false`
+ * - `saturated`: the server is saturated and the adaptive policy gave up compressing
+ * - `incompressible`: the body looks incompressible, or bodies of the same route and content type recently were
+ * - `insufficient-savings`: compression saved less than `minSavings`
+ * - `sensitive`: the response is flagged as sensitive to BREACH by the `breach` option
+ */
+export type SkipReason =
+  | 'disabled-by-header'
+  | 'head-request'
+  | 'no-content'
+  | 'status'
+  | 'partial-content'
+  | 'already-encoded'
+  | 'no-transform'
+  | 'not-acceptable'
+  | 'no-encoding'
+  | 'threshold'
+  | 'content-type'
+  | 'filter'
+  | 'saturated'
+  | 'incompressible'
+  | 'insufficient-savings'
+  | 'sensitive'
+
+/**
+ * What the middleware did to compress a response.
+ */
+export type CompressionEvent = {
+  encoding: CompressionEncoding | DictionaryEncoding
+
+  /**
+   * The byte size of the uncompressed body.
+   */
+  bytesIn: number
+
+  /**
+   * The byte size of the compressed body.
+   */
+  bytesOut: number
+
+  /**
+   * The time spent compressing in milliseconds, until the end of the body for streams.
+   */
+  duration: number
+
+  /**
+   * Whether the compressed body came from the cache, `undefined` when it wasn't
+   * looked up (caching disabled or streamed body).
+   */
+  cached?: boolean
+
+  /**
+   * Whether the body was compressed as a stream.
+   */
+  streamed: boolean
+}
+
+/**
+ * The content types to compress, either a pattern replacing the defaults or
+ * MIME types (e.g. `image/svg+xml`, `font/*`) or patterns to add to or remove from them.
+ */
+export type CompressibleTypes =
+  | RegExp
+  | {
+      include?: Array<string | RegExp>
+      exclude?: Array<string | RegExp>
+    }
+
+/**
+ * The status codes of the responses to compress: codes, inclusive `[from, to]`
+ * ranges, or a predicate.
+ *
+ * @example [[200, 299], 404, [500, 599]]
+ */
+export type StatusCodes =
+  Array<number | [number, number]> | ((status: number) => boolean)
+
+/**
+ * When a compression stream flushes its pending output to the client.
+ *
+ * - `chunk`: after every chunk written by the handler
+ * - `event`: after every chunk ending a Server-Sent Event (`\n\n`)
+ * - `{ interval, size }`: when `size` bytes are pending, or `interval` milliseconds after the first pending byte
+ */
+export type FlushStrategy =
+  | 'chunk'
+  | 'event'
+  | {
+      interval?: number
+      size?: number
+    }
+
+export type CompressionMode = 'sync' | 'async' | 'worker'
+
+export type WorkerPoolOptions = {
+  /**
+   * The number of worker threads.
+   *
+   * @default availableParallelism() - 1, at least 1
+   */
+  size?: number
+
+  /**
+   * The maximum number of bodies waiting for a free worker, further bodies are
+   * compressed on the libuv thread pool instead.
+   *
+   * @default 256
+   */
+  maxQueue?: number
+}
+
+/**
+ * The load of the server, as seen by the compression middleware.
+ */
+export type CompressionLoad = {
+  /**
+   * The event loop delay in milliseconds, measured over the last half second.
+   */
+  eventLoopLag: number
+
+  /**
+   * The number of buffered bodies being compressed.
+   */
+  inFlight: number
+}
+
+/**
+ * What the adaptive policy knows about a response when choosing its compression level.
+ */
+export type AdaptiveContext = {
+  encoding: CompressionEncoding
+
+  /**
+   * The byte size of the body, `undefined` for streams of unknown length.
+   */
+  size?: number
+  contentType: string
+
+  /**
+   * Whether the response may be stored by shared caches (`public`, `immutable`,
+   * `max-age` or `s-maxage` without `private` or `no-store`).
+   */
+  cacheable: boolean
+  load: CompressionLoad
+  req: Request
+  response: Response
+}
+
+export type AdaptivePolicy = {
+  /**
+   * Chooses the compression level of a response: the brotli quality, the zlib
+   * level or the zstd level depending on the encoding. Return `undefined` to
+   * keep the configured level.
+   *
+   * Defaults to brotli 11 for small cacheable bodies, brotli 4 and gzip 4 for
+   * bodies above 1 MiB or streams, and the configured levels otherwise.
+   */
+  level?: (context: AdaptiveContext) => number | undefined
+
+  /**
+   * The event loop delay in milliseconds above which the server is saturated.
+   *
+   * @default 100
+   */
+  maxEventLoopLag?: number
+
+  /**
+   * The number of buffered bodies being compressed at which the server is saturated.
+   *
+   * @default Infinity
+   */
+  maxInFlight?: number
+
+  /**
+   * The encoding and level used while the server is saturated, `false` to send
+   * responses uncompressed. Responses are sent uncompressed as well when the
+   * encoding isn't among the configured `encodings` or the client doesn't
+   * accept it.
+   *
+   * @default { encoding: 'gzip', level: 1 }
+   */
+  saturated?: { encoding: CompressionEncoding; level: number } | false
+}
+
+export type EntropySamplingOptions = {
+  /**
+   * The number of leading bytes sampled.
+   *
+   * @default 4096
+   */
+  sampleSize?: number
+
+  /**
+   * The entropy in bits per byte above which a body is deemed incompressible,
+   * 8 being uniformly random data.
+   *
+   * @default 7.5
+   */
+  maxEntropy?: number
+}
+
+/**
+ * Compressor options applied to the responses of a content type.
+ */
+export type ContentTypeOptions = Pick<
+  CompressionOptions,
+  'brotliOptions' | 'zlibOptions' | 'zstdOptions'
+>
+
+export type BreachOptions = {
+  /**
+   * Flags the responses mixing secrets and user input, sent uncompressed.
+   */
+  sensitive?: (req: Request, response: Response) => boolean
+
+  /**
+   * The response header flagging a response as sensitive, removed before the
+   * response is sent.
+   *
+   * @default 'x-compression-sensitive'
+   */
+  marker?: string
+
+  /**
+   * The maximum byte size of the random padding appended to compressed HTML
+   * and JSON bodies, `0` to disable padding.
+   *
+   * @default 32
+   */
+  padding?: number
+}
 
 export type CompressionOptions = {
   /**
@@ -17,13 +283,43 @@ export type CompressionOptions = {
    */
   zlibOptions?: ZlibOptions
 
+  /**
+   * The options use for zstd compression.
+   *
+   * Compression level, window size and checksum are set through `params`, e.g.
+   * `ZSTD_c_compressionLevel`, `ZSTD_c_windowLog` and `ZSTD_c_checksumFlag`.
+   *
+   * @see https://nodejs.org/api/zlib.html#class-zstdoptions
+   */
+  zstdOptions?: ZstdOptions
+
+  /**
+   * Tunes the brotli and zlib parameters per response: the brotli mode from the
+   * content type (`TEXT` for text, JSON or XML, `FONT` for fonts), a size hint
+   * from the known body size, and smaller windows for small bodies, which use
+   * less memory. Parameters set in the options take precedence.
+   *
+   * @default true
+   */
+  tuning?: boolean
+
+  /**
+   * Compressor options per content type, applied on top of the other options.
+   * Keys are MIME types, optionally ending with a `/*` wildcard, and the first
+   * matching key is used.
+   *
+   * @example { 'font/*': { brotliOptions: { params: { [zlib.constants.BROTLI_PARAM_QUALITY]: 11 } } } }
+   */
+  contentTypeOptions?: Record<string, ContentTypeOptions>
+
   /**
    * The encodings to use.
    *
    * By default, we prioritize compression using
    * 1. br
-   * 2. gzip
-   * 3. deflate
+   * 2. zstd (only when supported by the runtime)
+   * 3. gzip
+   * 4. deflate
    * If an unsupported encoding is received or if the 'accept-encoding' header is missing,
    * it will not compress the payload.
    *
@@ -49,26 +345,405 @@ export type CompressionOptions = {
    */
   threshold?: number
 
+  /**
+   * The minimum fraction of the body size compression must save, otherwise the
+   * original body is sent, e.g. `0.1` for at least 10% or `0` for any savings.
+   *
+   * Only applies to buffered bodies, as streams are sent while compressed. By
+   * default the compressed body is always sent.
+   */
+  minSavings?: number
+
+  /**
+   * Measures the entropy of the first bytes of buffered bodies to skip the
+   * incompressible ones (already compressed, encrypted or random data) without
+   * compressing them, `false` to always compress.
+   *
+   * @default true
+   */
+  entropySampling?: boolean | EntropySamplingOptions
+
+  /**
+   * How long in seconds the bodies of a route and content type are sent
+   * uncompressed after one turned out incompressible, `0` to always try.
+   *
+   * @default 300
+   */
+  incompressibleTTL?: number
+
+  /**
+   * How buffered bodies are compressed.
+   *
+   * - `sync`: on the event loop, blocking other requests while compressing
+   * - `async`: on the libuv thread pool, with the callback zlib APIs
+   * - `worker`: in a pool of worker threads, for CPU-heavy brotli levels
+   *
+   * @default 'sync'
+   */
+  mode?: CompressionMode
+
+  /**
+   * The worker pool used by the `worker` mode.
+   */
+  workerPool?: WorkerPoolOptions
+
+  /**
+   * The byte size above which bodies are compressed as a stream through
+   * `CompressionStream` instead, without caching. Bodies whose `Content-Length`
+   * exceeds it are streamed without being read into memory.
+   *
+   * @default 1048576 (1 MiB)
+   */
+  streamThreshold?: number
+
+  /**
+   * Chooses the compression level per response from its size, content type and
+   * the server load, `true` to use the default policy.
+   *
+   * @default false
+   */
+  adaptive?: boolean | AdaptivePolicy
+
+  /**
+   * Mitigates BREACH attacks on responses mixing secrets and user input:
+   * flagged responses are sent uncompressed and compressed HTML and JSON bodies
+   * get random-length padding, `true` to use the defaults.
+   *
+   * Padded bodies differ on every response, so they are not cached.
+   *
+   * @see https://www.breachattack.com
+   * @default false
+   */
+  breach?: boolean | BreachOptions
+
+  /**
+   * The shared dictionaries used to compress responses as `dcb` or `dcz` for
+   * clients announcing them with `Available-Dictionary`.
+   *
+   * @example dictionaries: createDictionaryStore({ derive: ['/assets/app.*.js'] })
+   */
+  dictionaries?: DictionaryStore
+
   /**
    * Whether to compress the stream data or not.
    * This generally refers to Server-Sent-Events
    *
+   * Bodies with a `Content-Length` or given at once (strings, buffers) are
+   * buffered, so `threshold` and the cache apply. Other bodies are read until
+   * `threshold` bytes arrive, and compressed as streams if they go on.
+   * `text/event-stream` responses, and every body of unknown size when `flush`
+   * is set, are compressed as streams right away, and never when disabled.
+   *
    * @link https://developer.mozilla.org/en-US/docs/Web/API/Server-sent_events/Using_server-sent_events
-   * Defaults to `false`
-   * @default false
+   * @default true
    */
   compressStream?: boolean
+
+  /**
+   * When compressed streams flush their pending output, instead of waiting for
+   * the compressor to fill its internal buffer.
+   *
+   * `text/event-stream` responses flush after every event unless set to `false`,
+   * so clients receive compressed events in real time.
+   *
+   * @default 'event' for `text/event-stream` responses, `false` otherwise
+   */
+  flush?: FlushStrategy | false
+
+  /**
+   * The content types to compress.
+   *
+   * By default every `text/*` type except `text/event-stream`, JSON, XML and
+   * `application/octet-stream` are compressed.
+   *
+   * @example { include: ['image/svg+xml', 'application/wasm'], exclude: ['application/octet-stream'] }
+   */
+  compressibleTypes?: CompressibleTypes
+
+  /**
+   * The status codes of the responses to compress, e.g. to compress large
+   * validation errors or error pages.
+   *
+   * `1xx`, `204` and `304` responses are never compressed, as they have no body,
+   * nor responses with a `Content-Range` such as `206` responses.
+   *
+   * @default [[200, 299]]
+   */
+  statusCodes?: StatusCodes
+
+  /**
+   * Decides whether a response should be compressed, on top of the other rules.
+   *
+   * Return `false` to send the response as-is.
+   */
+  filter?: (req: Request, response: Response) => boolean
+
+  /**
+   * Compression options overridden for some routes, the first route matching the
+   * request path is used.
+   *
+   * @example [{ path: '/api/export', brotliOptions: { params: { [zlib.constants.BROTLI_PARAM_QUALITY]: 11 } } }]
+   */
+  routes?: RouteCompressionOptions[]
+
+  /**
+   * How the `ETag` of a compressed response is altered, as the compressed body
+   * is a different representation than the original one.
+   *
+   * - `suffix`: append the encoding to the entity tag, e.g. `"abc"` becomes `"abc-br"`
+   *   (and the start of the dictionary hash for dictionary-compressed bodies)
+   * - `weak`: turn a strong entity tag into a weak one, e.g. `"abc"` becomes `W/"abc"`
+   *
+   * `If-None-Match` request headers are matched against the altered entity tag,
+   * so conditional requests still produce `304 Not Modified` responses.
+   *
+   * @default 'suffix'
+   */
+  etag?: 'suffix' | 'weak'
+
+  /**
+   * Called whenever a response is sent without compression, useful to debug
+   * why something wasn't compressed.
+   *
+   * @example onSkip: (reason, req) => console.debug(`${req.url} not compressed: ${reason}`)
+   */
+  onSkip?: (reason: SkipReason, req: Request, response: Response) => void
+
+  /**
+   * Called whenever a response is compressed, once its body has been fully
+   * compressed for streams.
+   *
+   * @example onCompress: (event, req) => console.debug(`${req.url}: ${event.bytesIn} -> ${event.bytesOut} bytes`)
+   */
+  onCompress?: (
+    event: CompressionEvent,
+    req: Request,
+    response: Response,
+  ) => void
+}
+
+export type RouteCompressionOptions = Pick<
+  CompressionOptions,
+  | 'brotliOptions'
+  | 'zlibOptions'
+  | 'zstdOptions'
+  | 'encodings'
+  | 'threshold'
+  | 'minSavings'
+  | 'entropySampling'
+  | 'compressibleTypes'
+  | 'statusCodes'
+  | 'flush'
+  | 'mode'
+  | 'streamThreshold'
+> & {
+  /**
+   * A path prefix, matched on segment boundaries (`/api` matches `/api/users` but
+   * not `/apis`), or a pattern tested against the request path.
+   */
+  path: string | RegExp
+}
+
+/**
+ * A shared dictionary served to clients ahead of the responses it compresses.
+ */
+export type CompressionDictionary = {
+  /**
+   * The path the dictionary is served at by the store `handler`, advertised with
+   * a `Link` header on the responses it applies to.
+   */
+  path: string
+
+  /**
+   * The URL pattern of the requests whose responses may be compressed with the
+   * dictionary, where `*` matches any characters.
+   *
+   * @example '/api/*'
+   */
+  match: string
+
+  /**
+   * The dictionary content.
+   */
+  content: string | Uint8Array
+
+  /**
+   * An identifier clients send back in the `Dictionary-ID` request header.
+   */
+  id?: string
+
+  /**
+   * The request destinations (`Sec-Fetch-Dest`) the dictionary applies to.
+   *
+   * @example ['document']
+   */
+  matchDest?: string[]
+}
+
+/**
+ * A dictionary known to the store, with the SHA-256 hash clients identify it by.
+ */
+export type StoredDictionary = {
+  match: string
+  matchDest?: string[]
+  content: Buffer
+  hash: Buffer
+}
+
+export type DictionaryStoreOptions = {
+  /**
+   * Static dictionaries, served by the store `handler`.
+   */
+  dictionaries?: CompressionDictionary[]
+
+  /**
+   * URL patterns of responses used as dictionaries for the later requests
+   * matching the same pattern, e.g. the previous version of a bundle.
+   *
+   * Streamed bodies are held in memory until they end to be kept.
+   *
+   * @example ['/assets/app.*.js']
+   */
+  derive?: string[]
+
+  /**
+   * How long clients and the store keep dictionaries, in seconds.
+   *
+   * @default 86400 (24 hours)
+   */
+  TTL?: number
+
+  /**
+   * The maximum number of derived dictionaries kept in memory.
+   *
+   * @default 100
+   */
+  maxEntries?: number
+
+  /**
+   * The maximum total byte size of the derived dictionaries kept in memory.
+   *
+   * @default 10485760 (10 MiB)
+   */
+  maxSize?: number
+}
+
+/**
+ * The dictionaries available to compress responses.
+ */
+export type DictionaryStore = {
+  /**
+   * Finds the dictionary a request announces with `Available-Dictionary`.
+   */
+  find: (req: Request) => StoredDictionary | undefined
+
+  /**
+   * Checks whether a dictionary may apply to a request, so its responses vary
+   * on `Available-Dictionary`.
+   */
+  matches: (req: Request) => boolean
+
+  /**
+   * Gets the `Use-As-Dictionary` header of the responses to a request matching
+   * a `derive` pattern.
+   */
+  useAsDictionary: (req: Request) => string | undefined
+
+  /**
+   * Keeps a response body as a dictionary when the request matches a `derive`
+   * pattern.
+   */
+  derive: (req: Request, body: Uint8Array) => void
+
+  /**
+   * Gets the `Link` header advertising the static dictionaries that apply to a
+   * request but weren't announced by the client.
+   */
+  link: (req: Request) => string | undefined
+
+  /**
+   * A route handler serving the static dictionaries with `Use-As-Dictionary`.
+   */
+  handler: RouteHandler
 }
 
 export type LifeCycleOptions = {
   /**
-   * Middleware execution order and scope.
+   * When the request is inspected, relative to the handler and the middleware
+   * registered after this one.
+   *
+   * - `after`: every decision is made once the response has been produced
+   * - `before`: `accept-encoding` is negotiated before calling the handler, so
+   *   refused requests get a `406 Not Acceptable` without running it and the
+   *   negotiated encoding is available through `getNegotiatedEncoding(req)`
+   *
+   * Responses are always compressed after the handler. Where the middleware is
+   * registered decides its scope: `server.use()` for every route, a nested route's
+   * `middleware` for its children, or a single route.
    *
    * @default 'after'
    */
   as?: 'before' | 'after'
 }
 
+export type CacheKey = string | number | bigint
+
+export type CachedValue<T> = {
+  value: T
+
+  /**
+   * Whether the value is past its time-to-live and should be refreshed.
+   */
+  stale: boolean
+}
+
+/**
+ * A store for compressed bodies, methods may return a Promise for asynchronous
+ * stores (e.g. Redis).
+ */
+export interface CacheStore<T = Buffer> {
+  /**
+   * Gets a value, `undefined` when missing or expired.
+   */
+  get(key: CacheKey): T | undefined | Promise<T | undefined>
+
+  /**
+   * Sets a value with an optional time-to-live in seconds, and how long it may
+   * still be served stale after it.
+   */
+  set(
+    key: CacheKey,
+    value: T,
+    TTL?: number,
+    staleTTL?: number,
+  ): void | Promise<void>
+
+  /**
+   * Gets a value along with whether it is past its time-to-live but still
+   * within its stale period, `undefined` when missing or expired.
+   *
+   * Stores without this method never serve stale values.
+   */
+  getStale?(
+    key: CacheKey,
+  ): CachedValue<T> | undefined | Promise<CachedValue<T> | undefined>
+
+  /**
+   * Checks if a non-expired value exists.
+   */
+  has(key: CacheKey): boolean | Promise<boolean>
+
+  /**
+   * Removes a value.
+   */
+  delete(key: CacheKey): boolean | void | Promise<boolean | void>
+
+  /**
+   * Removes all values.
+   */
+  clear(): void | Promise<void>
+}
+
 export type CacheOptions = {
   /**
    * The time-to-live in seconds for the cache.
@@ -76,8 +751,252 @@ export type CacheOptions = {
    * @default 86400 (24 hours)
    */
   TTL?: number
+
+  /**
+   * The store for compressed bodies, or `false` to disable caching.
+   *
+   * Each middleware instance gets its own in-memory LRU cache by default,
+   * pass the same store to several instances to share it.
+   */
+  cache?: CacheStore | false
+
+  /**
+   * How long in seconds a cached body may still be served after its TTL, while
+   * it is recompressed in the background. Requires a store implementing `getStale`,
+   * like the default in-memory cache.
+   *
+   * @default 0
+   */
+  staleWhileRevalidate?: number
+
+  /**
+   * Compression levels applied in the background to cached bodies: a response
+   * is compressed with the regular level first, then recompressed with this
+   * level and swapped in the cache for the next requests.
+   *
+   * @example { br: 11 }
+   */
+  backgroundLevel?: Partial<Record<CompressionEncoding, number>>
+
+  /**
+   * Computes the cache key of a response, e.g. from the route and its ETag,
+   * to skip hashing the body.
+   *
+   * The encoding and compression options are always part of the final key.
+   * Return `undefined` to fall back to hashing the body.
+   *
+   * @example (req, response) => `${new URL(req.url).pathname}:${response.headers.get('ETag')}`
+   */
+  cacheKey?: (req: Request, response: Response) => CacheKey | undefined
+
+  /**
+   * The maximum number of entries kept by the default in-memory cache.
+   *
+   * @default 1000
+   */
+  maxCacheEntries?: number
+
+  /**
+   * The maximum total byte size of the entries kept by the default in-memory cache.
+   *
+   * @default 52428800 (50 MiB)
+   */
+  maxCacheSize?: number
 }
 
 export type ElysiaCompressionOptions = CompressionOptions &
   LifeCycleOptions &
   CacheOptions
+
+export type WarmOptions = {
+  /**
+   * Fetches the URLs to warm, e.g. `server.fetch`. They are requested with
+   * `accept-encoding: identity` to get the uncompressed body.
+   *
+   * @default globalThis.fetch
+   */
+  fetch?: (req: Request) => Response | Promise<Response>
+
+  /**
+   * The URL relative paths are resolved against, e.g. `http://localhost:3000`.
+   * Warming a relative path requires either this or `fetch`.
+   */
+  baseURL?: string | URL
+
+  /**
+   * The request path of a warmed response, used to pick the route overrides
+   * and passed to `cacheKey`.
+   *
+   * @default '/'
+   */
+  path?: string
+
+  /**
+   * The encodings to precompute.
+   *
+   * @default the encodings of the matching route
+   */
+  encodings?: CompressionEncoding[]
+}
+
+export type DecompressionStreamOptions = Pick<
+  CompressionOptions,
+  'brotliOptions' | 'zlibOptions' | 'zstdOptions'
+>
+
+export type DecompressionOptions = Pick<
+  CompressionOptions,
+  'brotliOptions' | 'zlibOptions' | 'zstdOptions'
+> & {
+  /**
+   * The request content-codings to inflate.
+   *
+   * Requests using any other coding are rejected with `415 Unsupported Media Type`.
+   * Encodings the runtime can't decode (e.g. zstd on older Node.js) are skipped.
+   *
+   * @default ['br', 'zstd', 'gzip', 'deflate']
+   */
+  encodings?: CompressionEncoding[]
+
+  /**
+   * The maximum byte size of the decompressed request body.
+   *
+   * Larger bodies are rejected with `413 Content Too Large`.
+   *
+   * @default 10485760 (10 MiB)
+   */
+  maxOutputLength?: number
+
+  /**
+   * The maximum ratio between the decompressed and the compressed body size,
+   * protecting against decompression bombs.
+   *
+   * Bodies expanding further are rejected with `413 Content Too Large`.
+   *
+   * @default 100
+   */
+  maxRatio?: number
+}
+
+export type StaticOptions = {
+  /**
+   * The directory to serve files from.
+   */
+  root: string
+
+  /**
+   * The URL path prefix removed before resolving files in `root`.
+   *
+   * @default '/'
+   */
+  prefix?: string
+
+  /**
+   * The file served for directory requests.
+   *
+   * @default 'index.html'
+   */
+  index?: string
+
+  /**
+   * The encodings to look for, in order of preference. Precompressed sidecar files
+   * use the `.br`, `.zst` and `.gz` extensions.
+   *
+   * @default ['br', 'zstd', 'gzip']
+   */
+  encodings?: CompressionEncoding[]
+
+  /**
+   * Compresses files on the fly when no sidecar file exists for the negotiated
+   * encoding, using these compression options or the defaults when `true`.
+   *
+   * @default false
+   */
+  compress?: boolean | CompressionOptions
+
+  /**
+   * The `Cache-Control` header sent with every file.
+   */
+  cacheControl?: string
+}
+
+export type PrecompressOptions = Pick<
+  CompressionOptions,
+  | 'brotliOptions'
+  | 'zlibOptions'
+  | 'zstdOptions'
+  | 'threshold'
+  | 'compressibleTypes'
+> & {
+  /**
+   * The directory to walk.
+   */
+  root: string
+
+  /**
+   * The sidecar files to write, `.br`, `.gz` and `.zst` respectively.
+   *
+   * @default ['br', 'gzip']
+   */
+  encodings?: CompressionEncoding[]
+
+  /**
+   * Glob patterns (relative to `root`) of the files to compress, e.g. `**\/*.js`.
+   * By default every file with a compressible content type is compressed.
+   */
+  include?: string[]
+
+  /**
+   * Glob patterns (relative to `root`) of the files to skip.
+   */
+  exclude?: string[]
+
+  /**
+   * The number of files compressed in parallel.
+   *
+   * @default os.availableParallelism()
+   */
+  concurrency?: number
+
+  /**
+   * Only compress files changed since the last run, either by comparing the
+   * modification times of files and their sidecar files (`mtime`) or the hashes
+   * of their content, encoding and compression options recorded in a manifest
+   * file (`manifest`). Missing sidecar files are written again in both modes, and
+   * unchanged sidecar files older than their file are touched in `manifest` mode
+   * so `serveStatic` keeps serving them.
+   *
+   * @default false
+   */
+  incremental?: false | 'mtime' | 'manifest'
+
+  /**
+   * The path of the manifest file used by the `manifest` incremental mode.
+   *
+   * @default '<root>/.precompress-manifest.json'
+   */
+  manifest?: string
+}
+
+export type PrecompressResult = {
+  /**
+   * The path of the file, relative to `root`.
+   */
+  file: string
+
+  /**
+   * The byte size of the original file.
+   */
+  size: number
+
+  /**
+   * The byte size of each sidecar file written, or `null` when the compressed
+   * output wasn't smaller than the original file.
+   */
+  encodings: Partial<Record<CompressionEncoding, number | null>>
+
+  /**
+   * Whether the file was skipped as unchanged since the last run.
+   */
+  unchanged: boolean
+}
@@ -0,0 +1,165 @@
+import { Worker } from 'node:worker_threads'
+import { availableParallelism } from 'node:os'
+import type { CompressionEncoding, WorkerPoolOptions } from './types'
+
+/**
+ * The worker script, evaluated instead of loaded from a file so it works from
+ * both the ESM and CommonJS builds.
+ */
+const workerSource = `
+const { parentPort } = require('node:worker_threads')
+const zlib = require('node:zlib')
+
+const compressors = {
+  br: zlib.brotliCompressSync,
+  gzip: zlib.gzipSync,
+  deflate: zlib.deflateSync,
+  zstd: zlib.zstdCompressSync,
+}
+
+parentPort.on('message', ({ encoding, buffer, options }) => {
+  try {
+    parentPort.postMessage({ result: compressors[encoding](buffer, options) })
+  } catch (error) {
+    parentPort.postMessage({ error })
+  }
+})
+`
+
+type Task = {
+  encoding: CompressionEncoding
+  buffer: Uint8Array
+  options?: object
+  resolve: (result: Buffer) => void
+  reject: (error: unknown) => void
+}
+
+type PoolWorker = {
+  worker: Worker
+  task?: Task
+}
+
+type WorkerMessage = {
+  result?: Uint8Array
+  error?: unknown
+}
+
+export type WorkerPool = {
+  /**
+   * Compresses a buffer in a worker thread.
+   *
+   * @returns The compressed buffer, or `undefined` when the queue is full.
+   */
+  compress: (
+    encoding: CompressionEncoding,
+    buffer: Uint8Array,
+    options?: object,
+  ) => Promise<Buffer> | undefined
+
+  /**
+   * Terminates the workers, rejecting the queued tasks.
+   */
+  close: () => Promise<void>
+}
+
+/**
+ * Creates a pool of worker threads compressing buffers off the event loop.
+ *
+ * Workers are started on demand and don't keep the process alive.
+ *
+ * @param {WorkerPoolOptions} [options] - The pool options.
+ * @returns {WorkerPool} The worker pool.
+ */
+export const createWorkerPool = (options?: WorkerPoolOptions): WorkerPool => {
+  const size = options?.size ?? Math.max(1, availableParallelism() - 1)
+  const maxQueue = options?.maxQueue ?? 256
+  const workers: PoolWorker[] = []
+  const queue: Task[] = []
+
+  /**
+   * Starts a worker, replacing it if it crashes.
+   *
+   * @returns {PoolWorker} The started worker.
+   */
+  const spawn = (): PoolWorker => {
+    const poolWorker: PoolWorker = {
+      worker: new Worker(workerSource, { eval: true }),
+    }
+
+    poolWorker.worker.on('message', ({ result, error }: WorkerMessage) => {
+      const task = poolWorker.task
+      poolWorker.task = undefined
+
+      if (result) {
+        task?.resolve(
+          Buffer.from(result.buffer, result.byteOffset, result.byteLength),
+        )
+      } else {
+        task?.reject(error)
+      }
+      dispatch()
+    })
+    poolWorker.worker.once('error', (error) => {
+      workers.splice(workers.indexOf(poolWorker), 1)
+      poolWorker.task?.reject(error)
+      dispatch()
+    })
+    poolWorker.worker.unref()
+
+    workers.push(poolWorker)
+    return poolWorker
+  }
+
+  /**
+   * Hands queued tasks to idle workers, starting workers up to the pool size.
+   */
+  const dispatch = (): void => {
+    while (queue.length > 0) {
+      const poolWorker =
+        workers.find(({ task }) => !task) ??
+        (workers.length < size ? spawn() : undefined)
+      if (!poolWorker) {
+        return
+      }
+
+      const task = queue.shift() as Task
+      poolWorker.task = task
+      poolWorker.worker.postMessage({
+        encoding: task.encoding,
+        buffer: task.buffer,
+        options: task.options,
+      })
+    }
+  }
+
+  return {
+    compress: (encoding, buffer, compressorOptions) => {
+      if (queue.length >= maxQueue) {
+        return undefined
+      }
+
+      return new Promise((resolve, reject) => {
+        queue.push({
+          encoding,
+          buffer,
+          options: compressorOptions,
+          resolve,
+          reject,
+        })
+        dispatch()
+      })
+    },
+
+    close: async () => {
+      for (const task of queue.splice(0)) {
+        task.reject(new Error('The compression worker pool is closed'))
+      }
+      await Promise.all(
+        workers.splice(0).map(({ worker, task }) => {
+          task?.reject(new Error('The compression worker pool is closed'))
+          return worker.terminate()
+        }),
+      )
+    },
+  }
+}
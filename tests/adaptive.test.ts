@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  createAdaptivePolicy,
+  createLoadMonitor,
+  defaultAdaptiveLevel,
+  isCacheable,
+} from '../src/adaptive'
+import type { AdaptiveContext, CompressionEncoding } from '../src'
+
+const context = (
+  overrides: Partial<AdaptiveContext> = {},
+): AdaptiveContext => ({
+  encoding: 'br',
+  size: 32 * 1024,
+  contentType: 'application/json',
+  cacheable: false,
+  load: { eventLoopLag: 0, inFlight: 0 },
+  req: new Request('http://localhost/'),
+  response: new Response(),
+  ...overrides,
+})
+
+describe('isCacheable', () => {
+  it.each([
+    ['public, max-age=3600', true],
+    ['max-age=31536000, immutable', true],
+    ['s-maxage=60', true],
+    ['max-age=0', false],
+    ['private, max-age=3600', false],
+    ['public, no-store', false],
+    ['', false],
+  ])('Cache-Control: %s', (cacheControl, expected) => {
+    const response = new Response(null, {
+      headers: { 'Cache-Control': cacheControl },
+    })
+
+    expect(isCacheable(response)).toBe(expected)
+  })
+})
+
+describe('defaultAdaptiveLevel', () => {
+  it('should use the strongest brotli quality for small cacheable bodies', () => {
+    expect(defaultAdaptiveLevel(context({ cacheable: true }))).toBe(11)
+  })
+
+  it('should use fast levels for large or streamed bodies', () => {
+    expect(defaultAdaptiveLevel(context({ size: 2 * 1024 * 1024 }))).toBe(4)
+    expect(defaultAdaptiveLevel(context({ size: undefined }))).toBe(4)
+    expect(
+      defaultAdaptiveLevel(context({ encoding: 'gzip', size: undefined })),
+    ).toBe(4)
+  })
+
+  it('should keep the configured level otherwise', () => {
+    expect(defaultAdaptiveLevel(context({ encoding: 'br' }))).toBeUndefined()
+    expect(defaultAdaptiveLevel(context({ encoding: 'gzip' }))).toBeUndefined()
+    expect(defaultAdaptiveLevel(context({ encoding: 'zstd' }))).toBeUndefined()
+  })
+})
+
+describe('createAdaptivePolicy', () => {
+  const encodings: CompressionEncoding[] = ['br', 'gzip']
+
+  it('should apply the level function while the server is not saturated', () => {
+    const policy = createAdaptivePolicy({
+      level: ({ size }) => ((size ?? 0) > 1 ? 9 : 1),
+    })
+
+    expect(policy(context(), 'br', encodings)).toEqual({
+      encoding: 'br',
+      level: 9,
+    })
+  })
+
+  it('should fall back to fast gzip when the event loop lags', () => {
+    const policy = createAdaptivePolicy({ maxEventLoopLag: 50 })
+    const load = { eventLoopLag: 80, inFlight: 0 }
+
+    expect(policy(context({ load }), 'br, gzip', encodings)).toEqual({
+      encoding: 'gzip',
+      level: 1,
+    })
+    // The client doesn't accept the fallback encoding
+    expect(policy(context({ load }), 'br', encodings)).toBe(false)
+  })
+
+  it('should only fall back to a configured encoding', () => {
+    const policy = createAdaptivePolicy({ maxEventLoopLag: 50 })
+    const load = { eventLoopLag: 80, inFlight: 0 }
+
+    expect(policy(context({ load }), 'br, gzip', ['br'])).toBe(false)
+  })
+
+  it('should skip compression when saturated is false', () => {
+    const policy = createAdaptivePolicy({ maxInFlight: 2, saturated: false })
+
+    expect(
+      policy(
+        context({ load: { eventLoopLag: 0, inFlight: 1 } }),
+        'br',
+        encodings,
+      ),
+    ).not.toBe(false)
+    expect(
+      policy(
+        context({ load: { eventLoopLag: 0, inFlight: 2 } }),
+        'br',
+        encodings,
+      ),
+    ).toBe(false)
+  })
+})
+
+describe('createLoadMonitor', () => {
+  it('should count compressions in flight', async () => {
+    const monitor = createLoadMonitor()
+    let finish!: () => void
+    const compression = monitor.track(
+      new Promise<void>((resolve) => (finish = resolve)),
+    )
+
+    expect(monitor.load().inFlight).toBe(1)
+    finish()
+    await compression
+    expect(monitor.load().inFlight).toBe(0)
+  })
+
+  it('should measure the event loop delay', async () => {
+    const monitor = createLoadMonitor(10)
+    const blockedUntil = Date.now() + 60
+    while (Date.now() < blockedUntil) {
+      // Block the event loop
+    }
+    // The late sampling timer fires before this one
+    await new Promise((resolve) => setTimeout(resolve, 1))
+
+    expect(monitor.load().eventLoopLag).toBeGreaterThan(20)
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  createPadding,
+  maskSecret,
+  matchesMaskedSecret,
+  unmaskSecret,
+} from '../src/breach'
+
+const decode = (bytes?: Uint8Array) => new TextDecoder().decode(bytes)
+
+describe('createPadding', () => {
+  it('should pad HTML with a comment', () => {
+    const padding = decode(createPadding('text/html; charset=utf-8', 16))
+
+    expect(padding).toMatch(/^<!--[\w-]{0,16}-->$/u)
+  })
+
+  it('should pad JSON with whitespace', () => {
+    const padding = decode(createPadding('application/json', 16))
+
+    expect(padding).toMatch(/^[ \t\n\r]{0,16}$/u)
+    expect(JSON.parse(`{"token":"abc"}${padding}`)).toEqual({ token: 'abc' })
+    expect(createPadding('application/problem+json', 16)).toBeDefined()
+  })
+
+  it('should not pad other content types', () => {
+    expect(createPadding('text/plain', 16)).toBeUndefined()
+    expect(createPadding('text/event-stream', 16)).toBeUndefined()
+  })
+
+  it('should vary in length', () => {
+    const lengths = new Set(
+      Array.from(
+        { length: 50 },
+        () => createPadding('application/json', 32)?.byteLength,
+      ),
+    )
+
+    expect(lengths.size).toBeGreaterThan(1)
+  })
+})
+
+describe('maskSecret', () => {
+  it('should mask a secret differently every time', () => {
+    const first = maskSecret('csrf-token')
+    const second = maskSecret('csrf-token')
+
+    expect(first).not.toBe(second)
+    expect(first).not.toContain('csrf')
+    expect(unmaskSecret(first)?.toString()).toBe('csrf-token')
+    expect(unmaskSecret(second)?.toString()).toBe('csrf-token')
+  })
+
+  it('should reject malformed tokens', () => {
+    expect(unmaskSecret('')).toBeUndefined()
+    expect(unmaskSecret('abcd')).toBeUndefined()
+  })
+
+  it('should check masked secrets', () => {
+    const token = maskSecret(new TextEncoder().encode('csrf-token'))
+
+    expect(matchesMaskedSecret(token, 'csrf-token')).toBe(true)
+    expect(matchesMaskedSecret(token, 'other-token')).toBe(false)
+    expect(matchesMaskedSecret(maskSecret('csrf-tokeN'), 'csrf-token')).toBe(
+      false,
+    )
+  })
+})
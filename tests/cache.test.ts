@@ -1,28 +1,106 @@
-import { describe, expect } from 'vitest'
-import cache from '../src/cache'
+import { describe, expect, vi } from 'vitest'
+import { MemCache } from '../src/cache'
 import { it } from 'vitest'
 
 describe('MemCache', () => {
   it('should set and get a value', () => {
+    const cache = new MemCache()
     cache.set(1, 'value', 10)
     expect(cache.get(1)).toBe('value')
   })
 
   it('should clear the cache', () => {
+    const cache = new MemCache()
     cache.set(1, 'value', 10)
     cache.clear()
     expect(cache.get(1)).toBeUndefined()
   })
 
   it('should check if a value exists', () => {
+    const cache = new MemCache()
     cache.set(1, 'value', 10)
     expect(cache.has(1)).toBe(true)
     expect(cache.has(2)).toBe(false)
   })
 
-  it('should delete a value', async () => {
+  it('should delete a value', () => {
+    const cache = new MemCache()
+    cache.set(1, 'value', 10)
+    expect(cache.delete(1)).toBe(true)
+    expect(cache.has(1)).toBe(false)
+  })
+
+  it('should expire a value', () => {
+    vi.useFakeTimers()
+    const cache = new MemCache()
     cache.set(1, 'value', 0.1)
-    await new Promise((resolve) => setTimeout(resolve, 0.1 * 1000))
+    vi.advanceTimersByTime(0.1 * 1000)
     expect(cache.get(1)).toBeUndefined()
+    expect(cache.size).toBe(0)
+    vi.useRealTimers()
+  })
+
+  it('should evict the least recently used entry when full', () => {
+    const cache = new MemCache({ maxEntries: 2 })
+    cache.set(1, 'one')
+    cache.set(2, 'two')
+    cache.get(1)
+    cache.set(3, 'three')
+
+    expect(cache.has(1)).toBe(true)
+    expect(cache.has(2)).toBe(false)
+    expect(cache.has(3)).toBe(true)
+  })
+
+  it('should evict entries to stay within the byte size limit', () => {
+    const cache = new MemCache<Buffer>({ maxSize: 10 })
+    cache.set(1, Buffer.alloc(4))
+    cache.set(2, Buffer.alloc(4))
+    cache.set(3, Buffer.alloc(4))
+
+    expect(cache.has(1)).toBe(false)
+    expect(cache.byteSize).toBe(8)
+  })
+
+  it('should not store values larger than the byte size limit', () => {
+    const cache = new MemCache<Buffer>({ maxSize: 10 })
+    cache.set(1, Buffer.alloc(11))
+
+    expect(cache.has(1)).toBe(false)
+    expect(cache.byteSize).toBe(0)
+  })
+
+  it('should count hits, misses and evictions', () => {
+    const cache = new MemCache<Buffer>({ maxEntries: 1 })
+    cache.set(1, Buffer.alloc(4))
+    cache.get(1)
+    cache.get(2)
+    cache.set(2, Buffer.alloc(6))
+
+    expect(cache.stats).toEqual({
+      hits: 1,
+      misses: 1,
+      evictions: 1,
+      entries: 1,
+      bytes: 6,
+    })
+  })
+
+  it('should keep serving stale values until their stale period ends', () => {
+    vi.useFakeTimers()
+    const cache = new MemCache()
+    cache.set(1, 'value', 1, 10)
+
+    expect(cache.getStale(1)).toEqual({ value: 'value', stale: false })
+
+    vi.advanceTimersByTime(1000)
+    expect(cache.get(1)).toBeUndefined()
+    expect(cache.has(1)).toBe(false)
+    expect(cache.getStale(1)).toEqual({ value: 'value', stale: true })
+
+    vi.advanceTimersByTime(10 * 1000)
+    expect(cache.getStale(1)).toBeUndefined()
+    expect(cache.size).toBe(0)
+    vi.useRealTimers()
   })
 })
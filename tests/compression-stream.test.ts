@@ -1,11 +1,16 @@
-import { describe, expect, it } from 'vitest'
-import { CompressionStream } from '../src/compression-stream'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  CompressionStream,
+  DecompressionStream,
+  isZstdSupported,
+} from '../src/compression-stream'
 import zlib from 'node:zlib'
+import { randomBytes } from 'node:crypto'
 import { responseShort } from './setup'
 
 describe('CompressionStream', () => {
   it('should create a compression stream', () => {
-    const stream = CompressionStream('br')
+    const stream = new CompressionStream('br')
     expect(stream).toBeDefined()
     expect(stream.readable).toBeDefined()
     expect(stream.writable).toBeDefined()
@@ -16,7 +21,7 @@ describe('CompressionStream', () => {
     const testData = new TextEncoder().encode(responseShort)
 
     // Create a compression stream with Brotli encoding
-    const { readable, writable } = CompressionStream('br')
+    const { readable, writable } = new CompressionStream('br')
 
     // Use the WritableStream to write the test data
     const writer = writable.getWriter()
@@ -56,7 +61,7 @@ describe('CompressionStream', () => {
     const testData = new TextEncoder().encode(responseShort)
 
     // Create a compression stream with Brotli encoding
-    const { readable, writable } = CompressionStream('gzip')
+    const { readable, writable } = new CompressionStream('gzip')
 
     // Use the WritableStream to write the test data
     const writer = writable.getWriter()
@@ -96,7 +101,7 @@ describe('CompressionStream', () => {
     const testData = new TextEncoder().encode(responseShort)
 
     // Create a compression stream with Brotli encoding
-    const { readable, writable } = CompressionStream('deflate')
+    const { readable, writable } = new CompressionStream('deflate')
 
     // Use the WritableStream to write the test data
     const writer = writable.getWriter()
@@ -131,34 +136,377 @@ describe('CompressionStream', () => {
     expect(decompressedData).toEqual(responseShort)
   })
 
-  it(`Don't compress when algorithm is invalid`, async () => {
-    // Sample data to compress
-    const testData = new TextEncoder().encode(responseShort)
+  it.runIf(isZstdSupported)(
+    'compresses data using zstd encoding and verifies output',
+    async () => {
+      const testData = new TextEncoder().encode(responseShort)
+      const { readable, writable } = new CompressionStream('zstd')
 
-    // Create a compression stream with Brotli encoding
-    const { readable, writable } = CompressionStream('' as any)
+      const writer = writable.getWriter()
+      await writer.write(testData)
+      await writer.close()
 
-    // Use the WritableStream to write the test data
+      const compressedData = new Uint8Array(
+        await new Response(readable).arrayBuffer(),
+      )
+
+      expect(compressedData.byteLength).toBeGreaterThan(0)
+      expect(compressedData).not.toEqual(testData)
+
+      const decompressedData = new TextDecoder().decode(
+        zlib.zstdDecompressSync(compressedData),
+      )
+      expect(decompressedData).toEqual(responseShort)
+    },
+  )
+
+  it.runIf(!isZstdSupported)(
+    'throws a clear error when zstd is not supported by the runtime',
+    () => {
+      expect(() => new CompressionStream('zstd')).toThrow(/zstd/)
+    },
+  )
+
+  it('throws a TypeError on unknown formats', () => {
+    expect(() => new CompressionStream('' as any)).toThrow(TypeError)
+    expect(() => new CompressionStream('lzma' as any)).toThrow(
+      "Unsupported compression format: 'lzma'",
+    )
+  })
+
+  it('is a TransformStream', () => {
+    expect(new CompressionStream('gzip')).toBeInstanceOf(TransformStream)
+  })
+
+  it('compresses data using deflate-raw encoding', async () => {
+    const compressed = await new Response(
+      new Blob([responseShort])
+        .stream()
+        .pipeThrough(new CompressionStream('deflate-raw')),
+    ).arrayBuffer()
+
+    expect(zlib.inflateRawSync(Buffer.from(compressed)).toString('utf-8')).toBe(
+      responseShort,
+    )
+  })
+
+  it('accepts ArrayBuffer chunks', async () => {
+    const { readable, writable } = new CompressionStream('gzip')
     const writer = writable.getWriter()
-    await writer.write(testData)
-    await writer.close()
+    writer.write(new TextEncoder().encode(responseShort).buffer as any)
+    writer.close()
 
-    // Read from the ReadableStream and collect the compressed data
-    const reader = readable.getReader()
-    let compressedData = new Uint8Array()
-    let done = false
-    while (!done) {
-      const { value, done: streamDone } = await reader.read()
-      if (value) {
-        // This example simply concatenates chunks; for larger data, consider a more efficient method
-        compressedData = new Uint8Array([...compressedData, ...value])
+    const compressed = await new Response(readable).arrayBuffer()
+    expect(zlib.gunzipSync(Buffer.from(compressed)).toString('utf-8')).toBe(
+      responseShort,
+    )
+  })
+
+  it('is readable by the web standard DecompressionStream', async () => {
+    const decompressed = await new Response(
+      new Blob([responseShort])
+        .stream()
+        .pipeThrough(new CompressionStream('gzip'))
+        .pipeThrough(
+          new globalThis.DecompressionStream('gzip') as TransformStream<
+            Uint8Array,
+            Uint8Array
+          >,
+        ),
+    ).text()
+
+    expect(decompressed).toBe(responseShort)
+  })
+
+  describe('flush', () => {
+    const encoder = new TextEncoder()
+
+    /**
+     * Resolves with the pending read, or `undefined` if nothing is emitted in time.
+     */
+    const within = <T>(read: Promise<T>, ms: number) =>
+      Promise.race([
+        read,
+        new Promise<undefined>((resolve) => setTimeout(resolve, ms)),
+      ])
+
+    it('emits every chunk right away with the chunk strategy', async () => {
+      const { readable, writable } = new CompressionStream('gzip', {
+        flush: 'chunk',
+      })
+      const writer = writable.getWriter()
+      const reader = readable.getReader()
+
+      await writer.write(encoder.encode('data: first\n\n'))
+      const chunks: Uint8Array[] = []
+      let output = ''
+      while (!output.includes('first')) {
+        const { value } = await reader.read()
+        chunks.push(value as Uint8Array)
+        output = zlib
+          .gunzipSync(Buffer.concat(chunks), {
+            finishFlush: zlib.constants.Z_SYNC_FLUSH,
+          })
+          .toString('utf-8')
       }
-      done = streamDone
+
+      expect(output).toBe('data: first\n\n')
+      await writer.close()
+    })
+
+    it('flushes on Server-Sent Event boundaries with the event strategy', async () => {
+      const { readable, writable } = new CompressionStream('br', {
+        flush: 'event',
+      })
+      const writer = writable.getWriter()
+      const reader = readable.getReader()
+
+      const read = reader.read()
+      await writer.write(encoder.encode('data: partial\r\n'))
+      expect(await within(read, 50)).toBeUndefined()
+
+      await writer.write(encoder.encode('\r\n'))
+      const { value: chunk } = await read
+
+      expect(
+        zlib
+          .brotliDecompressSync(chunk as Uint8Array, {
+            finishFlush: zlib.constants.BROTLI_OPERATION_FLUSH,
+          })
+          .toString('utf-8'),
+      ).toBe('data: partial\r\n\r\n')
+      await writer.close()
+    })
+
+    it('flushes when the size limit is reached', async () => {
+      const { readable, writable } = new CompressionStream('br', {
+        flush: { size: 10 },
+      })
+      const writer = writable.getWriter()
+      const reader = readable.getReader()
+
+      const read = reader.read()
+      await writer.write(encoder.encode('12345'))
+      expect(await within(read, 50)).toBeUndefined()
+
+      await writer.write(encoder.encode('67890'))
+      expect((await read).value).toBeDefined()
+      await writer.close()
+    })
+
+    it('flushes after the interval', async () => {
+      const { readable, writable } = new CompressionStream('br', {
+        flush: { interval: 20 },
+      })
+      const writer = writable.getWriter()
+      const reader = readable.getReader()
+
+      await writer.write(encoder.encode('data: late\n'))
+      const { value: chunk } = await reader.read()
+
+      expect(
+        zlib
+          .brotliDecompressSync(chunk as Uint8Array, {
+            finishFlush: zlib.constants.BROTLI_OPERATION_FLUSH,
+          })
+          .toString('utf-8'),
+      ).toBe('data: late\n')
+      await writer.close()
+    })
+
+    it('buffers the output without a flush strategy', async () => {
+      const { readable, writable } = new CompressionStream('br')
+      const writer = writable.getWriter()
+      const reader = readable.getReader()
+
+      const read = reader.read()
+      await writer.write(encoder.encode('data: buffered\n\n'))
+      expect(await within(read, 50)).toBeUndefined()
+      await writer.close()
+    })
+  })
+
+  describe('lifecycle', () => {
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    /**
+     * Captures the zlib handle created by the next gzip compression stream.
+     */
+    const spyGzip = () => {
+      const createGzip = zlib.createGzip
+      let gzip: zlib.Gzip | undefined
+      vi.spyOn(zlib, 'createGzip').mockImplementation((options) => {
+        gzip = createGzip(options)
+        return gzip
+      })
+      return () => gzip as zlib.Gzip
     }
 
-    // Verify the compressed data
-    // Expect the compressed data to exist and be different from the original
-    expect(compressedData.byteLength).toBeGreaterThan(0)
-    expect(compressedData).toEqual(testData)
+    it('pauses writes while the reader is slow', async () => {
+      const input = randomBytes(1024 * 1024)
+      const { readable, writable } = new CompressionStream('gzip')
+      const writer = writable.getWriter()
+
+      let written = 0
+      const writes = Array.from({ length: 64 }, (_, index) =>
+        writer
+          .write(input.subarray(index * 16384, (index + 1) * 16384))
+          .then(() => written++),
+      )
+      await new Promise((resolve) => setTimeout(resolve, 100))
+
+      // Incompressible data fills the readable side after a few chunks
+      expect(written).toBeLessThan(8)
+      expect(writer.desiredSize).toBeLessThanOrEqual(0)
+
+      const output = new Response(readable).arrayBuffer()
+      await Promise.all(writes)
+      await writer.close()
+
+      expect(written).toBe(64)
+      expect(zlib.gunzipSync(await output).equals(input)).toBe(true)
+    })
+
+    it('destroys the compressor when the reader cancels', async () => {
+      const handle = spyGzip()
+      const { readable, writable } = new CompressionStream('gzip')
+      const writer = writable.getWriter()
+      const reader = readable.getReader()
+
+      await writer.write(new TextEncoder().encode(responseShort))
+      await reader.cancel(new Error('client disconnected'))
+
+      expect(handle().destroyed).toBe(true)
+      await expect(writer.write(new Uint8Array(1))).rejects.toThrow(
+        'client disconnected',
+      )
+    })
+
+    it('destroys the compressor when the reader cancels mid-output', async () => {
+      const handle = spyGzip()
+      const { readable, writable } = new CompressionStream('gzip')
+      const writer = writable.getWriter()
+      const reader = readable.getReader()
+
+      // Incompressible input keeps zlib emitting after the first chunk
+      writer.write(randomBytes(1024 * 1024)).catch(() => undefined)
+      await reader.read()
+      await reader.cancel(new Error('client disconnected'))
+      await new Promise((resolve) => setTimeout(resolve, 50))
+
+      expect(handle().destroyed).toBe(true)
+    })
+
+    it('destroys the compressor when the source aborts mid-stream', async () => {
+      const handle = spyGzip()
+      const source = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode(responseShort))
+          setTimeout(() => controller.error(new Error('upstream failed')), 10)
+        },
+      })
+
+      await expect(
+        new Response(
+          source.pipeThrough(new CompressionStream('gzip')),
+        ).arrayBuffer(),
+      ).rejects.toThrow('upstream failed')
+      expect(handle().destroyed).toBe(true)
+    })
+
+    it('propagates compressor errors to both sides', async () => {
+      const handle = spyGzip()
+      const { readable, writable } = new CompressionStream('gzip')
+      const writer = writable.getWriter()
+      const reader = readable.getReader()
+
+      await writer.write(new TextEncoder().encode(responseShort))
+      const failed = new Promise((resolve) => handle().once('error', resolve))
+      handle().destroy(new Error('zlib failure'))
+      await failed
+
+      await expect(reader.read()).rejects.toThrow('zlib failure')
+      await expect(writer.write(new Uint8Array(1))).rejects.toThrow(
+        'zlib failure',
+      )
+    })
+
+    it('rejects invalid chunks and releases the compressor', async () => {
+      const handle = spyGzip()
+      const { readable, writable } = new CompressionStream('gzip')
+      const writer = writable.getWriter()
+      const reader = readable.getReader()
+
+      await expect(writer.write(42 as any)).rejects.toThrow(TypeError)
+      await expect(reader.read()).rejects.toThrow(TypeError)
+      expect(handle().destroyed).toBe(true)
+    })
+  })
+})
+
+describe('DecompressionStream', () => {
+  const formats = ['br', 'gzip', 'deflate', 'deflate-raw'] as const
+
+  for (const format of formats) {
+    it(`decompresses ${format} data`, async () => {
+      const decompressed = await new Response(
+        new Blob([responseShort])
+          .stream()
+          .pipeThrough(new CompressionStream(format))
+          .pipeThrough(new DecompressionStream(format)),
+      ).text()
+
+      expect(decompressed).toBe(responseShort)
+    })
+  }
+
+  it.runIf(isZstdSupported)('decompresses zstd data', async () => {
+    const decompressed = await new Response(
+      new Blob([zlib.zstdCompressSync(responseShort)])
+        .stream()
+        .pipeThrough(new DecompressionStream('zstd')),
+    ).text()
+
+    expect(decompressed).toBe(responseShort)
+  })
+
+  it('decompresses the output of the web standard CompressionStream', async () => {
+    const decompressed = await new Response(
+      new Blob([responseShort])
+        .stream()
+        .pipeThrough(new globalThis.CompressionStream('deflate-raw'))
+        .pipeThrough(new DecompressionStream('deflate-raw')),
+    ).text()
+
+    expect(decompressed).toBe(responseShort)
+  })
+
+  it('throws a TypeError on unknown formats', () => {
+    expect(() => new DecompressionStream('lzma' as any)).toThrow(TypeError)
+  })
+
+  it('errors with a TypeError on corrupted input', async () => {
+    const { readable, writable } = new DecompressionStream('gzip')
+    const writer = writable.getWriter()
+    writer.write(new TextEncoder().encode(responseShort)).catch(() => {})
+    writer.close().catch(() => {})
+
+    await expect(new Response(readable).arrayBuffer()).rejects.toThrow(
+      TypeError,
+    )
+  })
+
+  it('errors with a TypeError on truncated input', async () => {
+    const compressed = zlib.gzipSync(responseShort)
+    const { readable, writable } = new DecompressionStream('gzip')
+    const writer = writable.getWriter()
+    writer.write(compressed.subarray(0, compressed.byteLength / 2))
+    writer.close().catch(() => {})
+
+    await expect(new Response(readable).arrayBuffer()).rejects.toThrow(
+      TypeError,
+    )
   })
 })
@@ -0,0 +1,119 @@
+import { describe, expect, it, vi } from 'vitest'
+import zlib from 'node:zlib'
+import { Server, defineRoute, defineRoutes } from 'vafast'
+
+import { responseLong, jsonResponse } from './setup'
+import { decompression } from '../src'
+import type { DecompressionOptions } from '../src'
+
+const createServer = (options?: DecompressionOptions) =>
+  new Server(
+    defineRoutes([
+      defineRoute({
+        method: 'POST',
+        path: '/',
+        handler: ({ req, body }) =>
+          new Response(body as string, {
+            headers: {
+              'x-content-encoding': req.headers.get('content-encoding') ?? '',
+              'x-content-length': req.headers.get('content-length') ?? '',
+            },
+          }),
+        middleware: [decompression(options)],
+      }),
+    ]),
+  )
+
+const post = (body: Buffer | string, encoding?: string) =>
+  new Request('http://localhost/', {
+    method: 'POST',
+    headers: encoding ? { 'content-encoding': encoding } : {},
+    body: typeof body === 'string' ? body : new Uint8Array(body),
+  })
+
+describe('decompression', () => {
+  it('should pass through requests without content-encoding', async () => {
+    const res = await createServer().fetch(post(responseLong))
+
+    expect(res.status).toBe(200)
+    expect(await res.text()).toBe(responseLong)
+  })
+
+  it('should inflate gzip, deflate and brotli bodies', async () => {
+    const server = createServer()
+    const bodies = {
+      gzip: zlib.gzipSync(jsonResponse),
+      deflate: zlib.deflateSync(jsonResponse),
+      br: zlib.brotliCompressSync(jsonResponse),
+    }
+
+    for (const [encoding, body] of Object.entries(bodies)) {
+      const res = await server.fetch(post(body, encoding))
+
+      expect(res.status).toBe(200)
+      expect(res.headers.get('x-content-encoding')).toBe('')
+      expect(res.headers.get('x-content-length')).toBe(
+        String(Buffer.byteLength(jsonResponse)),
+      )
+      expect(await res.text()).toBe(jsonResponse)
+    }
+  })
+
+  it('should inflate stacked encodings in reverse order', async () => {
+    const body = zlib.brotliCompressSync(zlib.gzipSync(jsonResponse))
+    const res = await createServer().fetch(post(body, 'gzip, br'))
+
+    expect(res.status).toBe(200)
+    expect(await res.text()).toBe(jsonResponse)
+  })
+
+  it('should accept the x-gzip alias and ignore identity', async () => {
+    const body = zlib.gzipSync(responseLong)
+    const res = await createServer().fetch(post(body, 'identity, X-Gzip'))
+
+    expect(res.status).toBe(200)
+    expect(await res.text()).toBe(responseLong)
+  })
+
+  it('should return 415 for unsupported encodings', async () => {
+    const res = await createServer({ encodings: ['gzip'] }).fetch(
+      post(zlib.brotliCompressSync(responseLong), 'br'),
+    )
+
+    expect(res.status).toBe(415)
+    expect(res.headers.get('Accept-Encoding')).toBe('gzip')
+  })
+
+  it('should return 400 for malformed bodies', async () => {
+    const res = await createServer().fetch(post('not gzip', 'gzip'))
+
+    expect(res.status).toBe(400)
+  })
+
+  it('should return 413 when the decompressed size exceeds maxOutputLength', async () => {
+    const body = zlib.gzipSync(responseLong)
+    const res = await createServer({ maxOutputLength: 1024 }).fetch(
+      post(body, 'gzip'),
+    )
+
+    expect(res.status).toBe(413)
+  })
+
+  it('should return 413 when the compression ratio exceeds maxRatio', async () => {
+    const bomb = zlib.gzipSync(Buffer.alloc(1024 * 1024))
+    const res = await createServer().fetch(post(bomb, 'gzip'))
+
+    expect(res.status).toBe(413)
+  })
+
+  it('should not inflate bodies synchronously', async () => {
+    const gunzipSync = vi.spyOn(zlib, 'gunzipSync')
+    const res = await createServer().fetch(
+      post(zlib.gzipSync(responseLong), 'gzip'),
+    )
+
+    expect(await res.text()).toBe(responseLong)
+    expect(gunzipSync).not.toHaveBeenCalled()
+    gunzipSync.mockRestore()
+  })
+})
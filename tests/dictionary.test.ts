@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest'
+import { createHash } from 'node:crypto'
+
+import { responseShort } from './setup'
+import {
+  createDictionaryStore,
+  dictionaryHeader,
+  formatUseAsDictionary,
+  parseAvailableDictionary,
+} from '../src/dictionary'
+
+const sha256 = (content: string) =>
+  createHash('sha256').update(content).digest()
+
+const request = (path: string, headers: Record<string, string> = {}) =>
+  new Request(`http://localhost${path}`, { headers })
+
+const available = (content: string) => ({
+  'available-dictionary': `:${sha256(content).toString('base64')}:`,
+})
+
+describe('parseAvailableDictionary', () => {
+  it('should parse a SHA-256 byte sequence', () => {
+    const hash = sha256('dictionary')
+
+    expect(
+      parseAvailableDictionary(`:${hash.toString('base64')}:`)?.equals(hash),
+    ).toBe(true)
+  })
+
+  it('should ignore malformed or truncated hashes', () => {
+    expect(parseAvailableDictionary(null)).toBeUndefined()
+    expect(parseAvailableDictionary('abc')).toBeUndefined()
+    expect(
+      parseAvailableDictionary(`:${Buffer.from('short').toString('base64')}:`),
+    ).toBeUndefined()
+  })
+})
+
+describe('formatUseAsDictionary', () => {
+  it('should format a structured field dictionary', () => {
+    expect(formatUseAsDictionary({ match: '/api/*' })).toBe('match="/api/*"')
+    expect(
+      formatUseAsDictionary({
+        match: '/"quoted"/*',
+        matchDest: ['document', 'frame'],
+        id: 'v1',
+      }),
+    ).toBe('match="/\\"quoted\\"/*", match-dest=("document" "frame"), id="v1"')
+  })
+})
+
+describe('dictionaryHeader', () => {
+  it('should start with the magic number of the encoding', () => {
+    const hash = sha256('dictionary')
+
+    expect([...dictionaryHeader('dcb', hash).subarray(0, 4)]).toEqual([
+      0xff, 0x44, 0x43, 0x42,
+    ])
+    expect([...dictionaryHeader('dcz', hash).subarray(0, 8)]).toEqual([
+      0x5e, 0x2a, 0x4d, 0x18, 0x20, 0x00, 0x00, 0x00,
+    ])
+    expect(Buffer.from(dictionaryHeader('dcz', hash).subarray(8))).toEqual(hash)
+  })
+})
+
+describe('createDictionaryStore', () => {
+  const store = createDictionaryStore({
+    dictionaries: [
+      {
+        path: '/dictionaries/api.dict',
+        match: '/api/*',
+        content: responseShort,
+        id: 'api',
+      },
+      {
+        path: '/dictionaries/page.dict',
+        match: '/pages/*',
+        matchDest: ['document'],
+        content: 'page',
+      },
+    ],
+    derive: ['/assets/app.*.js'],
+  })
+
+  it('should find the static dictionary announced by a request', () => {
+    const dictionary = store.find(
+      request('/api/users', available(responseShort)),
+    )
+
+    expect(dictionary?.match).toBe('/api/*')
+    expect(dictionary?.hash.equals(sha256(responseShort))).toBe(true)
+  })
+
+  it('should not use dictionaries outside of their URL pattern and destination', () => {
+    expect(
+      store.find(request('/users', available(responseShort))),
+    ).toBeUndefined()
+    expect(
+      store.find(request('/pages/home', available('page'))),
+    ).toBeUndefined()
+    expect(
+      store.find(
+        request('/pages/home', {
+          ...available('page'),
+          'sec-fetch-dest': 'document',
+        }),
+      ),
+    ).toBeDefined()
+  })
+
+  it('should keep responses matching a derive pattern as dictionaries', () => {
+    const body = new TextEncoder().encode('bundle v1')
+
+    expect(store.useAsDictionary(request('/assets/other.js'))).toBeUndefined()
+    expect(store.useAsDictionary(request('/assets/app.v1.js'))).toBe(
+      'match="/assets/app.*.js"',
+    )
+
+    store.derive(request('/assets/other.js'), body)
+    expect(
+      store.find(request('/assets/other.js', available('bundle v1'))),
+    ).toBeUndefined()
+
+    store.derive(request('/assets/app.v1.js'), body)
+    expect(
+      store.find(request('/assets/app.v2.js', available('bundle v1'))),
+    ).toBeDefined()
+  })
+
+  it('should tell which requests may use a dictionary', () => {
+    expect(store.matches(request('/api/users'))).toBe(true)
+    expect(store.matches(request('/assets/app.v2.js'))).toBe(true)
+    expect(store.matches(request('/users'))).toBe(false)
+  })
+
+  it('should advertise the static dictionaries the client does not have', () => {
+    expect(store.link(request('/api/users'))).toBe(
+      '</dictionaries/api.dict>; rel="compression-dictionary"',
+    )
+    expect(
+      store.link(request('/api/users', available(responseShort))),
+    ).toBeUndefined()
+  })
+
+  it('should serve static dictionaries', async () => {
+    const res = store.handler({ req: request('/dictionaries/api.dict') })
+
+    expect(res.headers.get('Use-As-Dictionary')).toBe(
+      'match="/api/*", id="api"',
+    )
+    expect(res.headers.get('Cache-Control')).toBe('public, max-age=86400')
+    expect(await res.text()).toBe(responseShort)
+    expect(store.handler({ req: request('/dictionaries/x') }).status).toBe(404)
+  })
+})
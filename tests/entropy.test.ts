@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { randomBytes } from 'node:crypto'
+import zlib from 'node:zlib'
+
+import { responseLong } from './setup'
+import { createEntropySampler, shannonEntropy } from '../src/entropy'
+
+describe('shannonEntropy', () => {
+  it('should measure the entropy in bits per byte', () => {
+    expect(shannonEntropy(new Uint8Array())).toBe(0)
+    expect(shannonEntropy(new Uint8Array(64).fill(0x61))).toBe(0)
+    expect(shannonEntropy(new Uint8Array([0, 1, 0, 1]))).toBe(1)
+    expect(
+      shannonEntropy(Uint8Array.from({ length: 256 }, (_, index) => index)),
+    ).toBe(8)
+  })
+})
+
+describe('createEntropySampler', () => {
+  const toArrayBuffer = (bytes: Uint8Array) => new Uint8Array(bytes).buffer
+
+  it('should tell compressed and random data from text', () => {
+    const isIncompressible = createEntropySampler()
+
+    expect(isIncompressible(toArrayBuffer(randomBytes(8192)))).toBe(true)
+    expect(
+      isIncompressible(toArrayBuffer(zlib.gzipSync(randomBytes(8192)))),
+    ).toBe(true)
+    expect(
+      isIncompressible(toArrayBuffer(new TextEncoder().encode(responseLong))),
+    ).toBe(false)
+  })
+
+  it('should only sample the first bytes', () => {
+    const isIncompressible = createEntropySampler({ sampleSize: 1024 })
+    const bytes = new Uint8Array(8192)
+    bytes.set(randomBytes(4096), 4096)
+
+    expect(isIncompressible(toArrayBuffer(bytes))).toBe(false)
+  })
+
+  it('should use the configured maximum entropy', () => {
+    const bytes = toArrayBuffer(new TextEncoder().encode(responseLong))
+
+    expect(createEntropySampler({ maxEntropy: 1 })(bytes)).toBe(true)
+  })
+})
@@ -1,9 +1,19 @@
-import { describe, expect, it } from 'vitest'
+import { describe, expect, it, vi } from 'vitest'
 import zlib from 'node:zlib'
-import { Server, defineRoute, defineRoutes } from 'vafast'
+import { readFileSync } from 'node:fs'
+import { resolve } from 'node:path'
+import { createHash, randomBytes } from 'node:crypto'
+import { Server, defineMiddleware, defineRoute, defineRoutes } from 'vafast'
 
-import { req, responseShort, jsonResponse } from './setup'
-import compression from '../src'
+import { req, responseShort, responseLong, jsonResponse } from './setup'
+import compression, {
+  MemCache,
+  createDictionaryStore,
+  getNegotiatedEncoding,
+  isDictionaryEncodingSupported,
+  maskSecret,
+} from '../src'
+import { isZstdSupported } from '../src/compression-stream'
 
 describe(`@vafast/compress`, () => {
   it('Dont compress when the threshold is not met', async () => {
@@ -440,4 +450,2042 @@ describe(`@vafast/compress`, () => {
     expect(res.headers.get('Content-Encoding')).toBe('br')
     expect(res.headers.get('Vary')).toBe('location, header, accept-encoding')
   })
+
+  it('Should pick the encoding with the highest q-value', async () => {
+    const routes = defineRoutes([
+      defineRoute({
+        method: 'GET',
+        path: '/',
+        handler: () => responseShort,
+        middleware: [compression({ threshold: 0, compressStream: false })],
+      })
+    ])
+    const server = new Server(routes)
+    const res = await server.fetch(
+      req({ 'accept-encoding': 'br;q=0.5,gzip;q=1' }),
+    )
+
+    expect(res.headers.get('Content-Encoding')).toBe('gzip')
+    expect(zlib.gunzipSync(await res.arrayBuffer()).toString('utf-8')).toBe(
+      responseShort,
+    )
+  })
+
+  it(`Shouldn't compress with a refused encoding`, async () => {
+    const routes = defineRoutes([
+      defineRoute({
+        method: 'GET',
+        path: '/',
+        handler: () => responseShort,
+        middleware: [
+          compression({
+            encodings: ['gzip'],
+            threshold: 0,
+            compressStream: false,
+          }),
+        ],
+      })
+    ])
+    const server = new Server(routes)
+    const res = await server.fetch(req({ 'accept-encoding': 'gzip;q=0' }))
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('Content-Encoding')).toBeNull()
+    expect(await res.text()).toBe(responseShort)
+  })
+
+  it('Should return 406 when identity is refused and nothing else is acceptable', async () => {
+    const routes = defineRoutes([
+      defineRoute({
+        method: 'GET',
+        path: '/',
+        handler: () => responseShort,
+        middleware: [
+          compression({
+            encodings: ['gzip'],
+            threshold: 0,
+            compressStream: false,
+          }),
+        ],
+      })
+    ])
+    const server = new Server(routes)
+    const res = await server.fetch(
+      req({ 'accept-encoding': 'br, identity;q=0' }),
+    )
+
+    expect(res.status).toBe(406)
+    expect(res.headers.get('Vary')).toBe('accept-encoding')
+  })
+
+  it.runIf(isZstdSupported)('handle zstd compression', async () => {
+    const routes = defineRoutes([
+      defineRoute({
+        method: 'GET',
+        path: '/',
+        handler: () => responseShort,
+        middleware: [
+          compression({
+            encodings: ['zstd'],
+            threshold: 1,
+            compressStream: false,
+          }),
+        ],
+      })
+    ])
+    const server = new Server(routes)
+    const res = await server.fetch(req())
+
+    expect(res.headers.get('Content-Encoding')).toBe('zstd')
+    expect(res.headers.get('vary')).toBe('accept-encoding')
+    expect(
+      zlib.zstdDecompressSync(await res.arrayBuffer()).toString('utf-8'),
+    ).toBe(responseShort)
+  })
+
+  it.runIf(!isZstdSupported)(
+    'skip zstd when the runtime does not support it',
+    async () => {
+      const routes = defineRoutes([
+        defineRoute({
+          method: 'GET',
+          path: '/',
+          handler: () => responseShort,
+          middleware: [
+            compression({
+              encodings: ['zstd', 'gzip'],
+              threshold: 1,
+              compressStream: false,
+            }),
+          ],
+        })
+      ])
+      const server = new Server(routes)
+      const res = await server.fetch(req({ 'accept-encoding': 'zstd, gzip' }))
+
+      expect(res.headers.get('Content-Encoding')).toBe('gzip')
+    },
+  )
+
+  it('Should not share cache entries between different binary bodies', async () => {
+    const cache = new MemCache()
+    const bodies = [
+      new Uint8Array([0xff, 0xfe, 0xfd, 0xfc]),
+      new Uint8Array([0xfc, 0xfd, 0xfe, 0xff]),
+    ]
+    const routes = defineRoutes(
+      bodies.map((body, index) =>
+        defineRoute({
+          method: 'GET',
+          path: `/${index}`,
+          handler: () =>
+            new Response(body, {
+              headers: { 'Content-Type': 'application/octet-stream' },
+            }),
+          middleware: [
+            compression({
+              encodings: ['gzip'],
+              threshold: 0,
+              compressStream: false,
+              cache,
+            }),
+          ],
+        }),
+      ),
+    )
+    const server = new Server(routes)
+
+    for (const [index, body] of bodies.entries()) {
+      const res = await server.fetch(
+        new Request(`http://localhost/${index}`, {
+          headers: { 'accept-encoding': 'gzip' },
+        }),
+      )
+
+      expect(new Uint8Array(zlib.gunzipSync(await res.arrayBuffer()))).toEqual(
+        body,
+      )
+    }
+    expect(cache.size).toBe(2)
+  })
+
+  it('Should not share cache entries between different compression options', async () => {
+    const cache = new MemCache()
+    const routes = defineRoutes(
+      [1, 9].map((level) =>
+        defineRoute({
+          method: 'GET',
+          path: `/${level}`,
+          handler: () => responseShort,
+          middleware: [
+            compression({
+              encodings: ['gzip'],
+              threshold: 0,
+              compressStream: false,
+              zlibOptions: { level },
+              cache,
+            }),
+          ],
+        }),
+      ),
+    )
+    const server = new Server(routes)
+    await server.fetch(new Request('http://localhost/1', req()))
+    await server.fetch(new Request('http://localhost/9', req()))
+
+    expect(cache.size).toBe(2)
+  })
+
+  it('Should use the custom cache key', async () => {
+    const cache = new MemCache()
+    const routes = defineRoutes([
+      defineRoute({
+        method: 'GET',
+        path: '/',
+        handler: () => responseShort,
+        middleware: [
+          compression({
+            encodings: ['gzip'],
+            threshold: 0,
+            compressStream: false,
+            cacheKey: (request) => `route:${new URL(request.url).pathname}`,
+            cache,
+          }),
+        ],
+      })
+    ])
+    const server = new Server(routes)
+    await server.fetch(req())
+
+    const spy = vi.spyOn(cache, 'get')
+    const res = await server.fetch(req())
+
+    expect(spy).toHaveBeenCalledWith(
+      expect.stringMatching(/^gzip:\w+:route:\/$/),
+    )
+    expect(zlib.gunzipSync(await res.arrayBuffer()).toString('utf-8')).toBe(
+      responseShort,
+    )
+  })
+
+  it(`Shouldn't cache when the cache is disabled`, async () => {
+    const spy = vi.spyOn(MemCache.prototype, 'set')
+    const routes = defineRoutes([
+      defineRoute({
+        method: 'GET',
+        path: '/',
+        handler: () => responseShort,
+        middleware: [
+          compression({ threshold: 0, compressStream: false, cache: false }),
+        ],
+      })
+    ])
+    const server = new Server(routes)
+    const res = await server.fetch(req())
+
+    expect(res.headers.get('Content-Encoding')).toBe('br')
+    expect(spy).not.toHaveBeenCalled()
+    spy.mockRestore()
+  })
+
+  it(`Shouldn't encode an already encoded response twice`, async () => {
+    const onSkip = vi.fn()
+    const gzipped = zlib.gzipSync(responseShort)
+    const routes = defineRoutes([
+      defineRoute({
+        method: 'GET',
+        path: '/',
+        handler: () =>
+          new Response(new Uint8Array(gzipped), {
+            headers: { 'Content-Encoding': 'gzip' },
+          }),
+        middleware: [
+          compression({ threshold: 0, compressStream: false, onSkip }),
+        ],
+      })
+    ])
+    const server = new Server(routes)
+    const res = await server.fetch(req())
+
+    expect(res.headers.get('Content-Encoding')).toBe('gzip')
+    expect(zlib.gunzipSync(await res.arrayBuffer()).toString('utf-8')).toBe(
+      responseShort,
+    )
+    expect(onSkip).toHaveBeenCalledWith(
+      'already-encoded',
+      expect.any(Request),
+      expect.any(Response),
+    )
+  })
+
+  it(`Shouldn't compress when Cache-Control has no-transform`, async () => {
+    const onSkip = vi.fn()
+    const routes = defineRoutes([
+      defineRoute({
+        method: 'GET',
+        path: '/',
+        handler: () =>
+          new Response(responseShort, {
+            headers: { 'Cache-Control': 'public, No-Transform, max-age=60' },
+          }),
+        middleware: [
+          compression({ threshold: 0, compressStream: false, onSkip }),
+        ],
+      })
+    ])
+    const server = new Server(routes)
+    const res = await server.fetch(req())
+
+    expect(res.headers.get('Content-Encoding')).toBeNull()
+    expect(await res.text()).toBe(responseShort)
+    expect(onSkip.mock.calls[0]?.[0]).toBe('no-transform')
+  })
+
+  it(`Shouldn't compress byte ranges`, async () => {
+    const onSkip = vi.fn()
+    const routes = defineRoutes([
+      defineRoute({
+        method: 'GET',
+        path: '/',
+        handler: () =>
+          new Response(responseShort, {
+            status: 206,
+            headers: {
+              'Content-Range': `bytes 0-${responseShort.length - 1}/${responseShort.length * 2}`,
+            },
+          }),
+        middleware: [
+          compression({ threshold: 0, compressStream: false, onSkip }),
+        ],
+      })
+    ])
+    const server = new Server(routes)
+    const res = await server.fetch(req())
+
+    expect(res.status).toBe(206)
+    expect(res.headers.get('Content-Encoding')).toBeNull()
+    expect(await res.text()).toBe(responseShort)
+    expect(onSkip.mock.calls[0]?.[0]).toBe('partial-content')
+  })
+
+  it(`Shouldn't compress 204 responses`, async () => {
+    const onSkip = vi.fn()
+    const routes = defineRoutes([
+      defineRoute({
+        method: 'GET',
+        path: '/',
+        handler: () => new Response(null, { status: 204 }),
+        middleware: [compression({ threshold: 0, onSkip })],
+      })
+    ])
+    const server = new Server(routes)
+    const res = await server.fetch(req())
+
+    expect(res.status).toBe(204)
+    expect(res.headers.get('Content-Encoding')).toBeNull()
+    expect(onSkip.mock.calls[0]?.[0]).toBe('no-content')
+  })
+
+  it(`Shouldn't compress HEAD requests`, async () => {
+    const onSkip = vi.fn()
+    const routes = defineRoutes([
+      defineRoute({
+        method: 'HEAD',
+        path: '/',
+        handler: () => responseShort,
+        middleware: [compression({ threshold: 0, onSkip })],
+      })
+    ])
+    const server = new Server(routes)
+    const res = await server.fetch(
+      new Request('http://localhost/', {
+        method: 'HEAD',
+        headers: req().headers,
+      }),
+    )
+
+    expect(res.headers.get('Content-Encoding')).toBeNull()
+    expect(onSkip.mock.calls[0]?.[0]).toBe('head-request')
+  })
+
+  it('Should report why a response was not compressed', async () => {
+    const onSkip = vi.fn()
+    const routes = defineRoutes([
+      defineRoute({
+        method: 'GET',
+        path: '/',
+        handler: () => responseShort,
+        middleware: [
+          compression({ threshold: 1024, compressStream: false, onSkip }),
+        ],
+      })
+    ])
+    const server = new Server(routes)
+    await server.fetch(req())
+    await server.fetch(req({ 'accept-encoding': 'compress' }))
+    await server.fetch(req({ 'x-no-compression': 'true' }))
+
+    expect(onSkip.mock.calls.map(([reason]) => reason)).toEqual([
+      'threshold',
+      'no-encoding',
+      'disabled-by-header',
+    ])
+  })
+
+  it('Should ignore an invalid Content-Length', async () => {
+    const routes = defineRoutes([
+      defineRoute({
+        method: 'GET',
+        path: '/',
+        handler: () =>
+          new Response(responseLong, {
+            headers: { 'Content-Length': 'abc' },
+          }),
+        middleware: [compression()],
+      })
+    ])
+    const server = new Server(routes)
+    const res = await server.fetch(req())
+    const body = await res.arrayBuffer()
+
+    expect(res.headers.get('Content-Encoding')).toBe('br')
+    expect(res.headers.get('Content-Length')).toBe(String(body.byteLength))
+    expect(zlib.brotliDecompressSync(body).toString()).toBe(responseLong)
+  })
+
+  it('Should fix Content-Length and drop Accept-Ranges', async () => {
+    const routes = defineRoutes([
+      defineRoute({
+        method: 'GET',
+        path: '/',
+        handler: () =>
+          new Response(responseShort, {
+            headers: {
+              'Content-Length': String(responseShort.length),
+              'Accept-Ranges': 'bytes',
+            },
+          }),
+        middleware: [compression({ threshold: 0, compressStream: false })],
+      })
+    ])
+    const server = new Server(routes)
+    const res = await server.fetch(req())
+    const body = await res.arrayBuffer()
+
+    expect(res.headers.get('Content-Length')).toBe(String(body.byteLength))
+    expect(res.headers.get('Accept-Ranges')).toBeNull()
+  })
+
+  it('Should suffix strong and weak ETags with the encoding', async () => {
+    const routes = defineRoutes([
+      defineRoute({
+        method: 'GET',
+        path: '/strong',
+        handler: () =>
+          new Response(responseShort, { headers: { ETag: '"abc"' } }),
+        middleware: [compression({ threshold: 0, compressStream: false })],
+      }),
+      defineRoute({
+        method: 'GET',
+        path: '/weak',
+        handler: () =>
+          new Response(responseShort, { headers: { ETag: 'W/"abc"' } }),
+        middleware: [compression({ threshold: 0, compressStream: false })],
+      }),
+    ])
+    const server = new Server(routes)
+    const strong = await server.fetch(
+      new Request('http://localhost/strong', req()),
+    )
+    const weak = await server.fetch(new Request('http://localhost/weak', req()))
+
+    expect(strong.headers.get('ETag')).toBe('"abc-br"')
+    expect(weak.headers.get('ETag')).toBe('W/"abc-br"')
+  })
+
+  it('Should weaken ETags when configured', async () => {
+    const routes = defineRoutes([
+      defineRoute({
+        method: 'GET',
+        path: '/',
+        handler: () =>
+          new Response(responseShort, { headers: { ETag: '"abc"' } }),
+        middleware: [
+          compression({ threshold: 0, compressStream: false, etag: 'weak' }),
+        ],
+      })
+    ])
+    const server = new Server(routes)
+    const res = await server.fetch(req())
+
+    expect(res.headers.get('ETag')).toBe('W/"abc"')
+  })
+
+  it('Should return 304 when If-None-Match matches the encoded ETag', async () => {
+    const routes = defineRoutes([
+      defineRoute({
+        method: 'GET',
+        path: '/',
+        handler: () =>
+          new Response(responseShort, { headers: { ETag: '"abc"' } }),
+        middleware: [compression({ threshold: 0, compressStream: false })],
+      })
+    ])
+    const server = new Server(routes)
+    const res = await server.fetch(req({ 'if-none-match': 'W/"xyz", "abc-br"' }))
+
+    expect(res.status).toBe(304)
+    expect(res.headers.get('ETag')).toBe('"abc-br"')
+    expect(res.headers.get('Vary')).toBe('accept-encoding')
+    expect(await res.text()).toBe('')
+
+    const res2 = await server.fetch(req({ 'if-none-match': '"abc-gzip"' }))
+    expect(res2.status).toBe(200)
+    expect(res2.headers.get('Content-Encoding')).toBe('br')
+  })
+
+  it('Should return 304 without Content-Encoding for weakened ETags', async () => {
+    const routes = defineRoutes([
+      defineRoute({
+        method: 'GET',
+        path: '/',
+        handler: () =>
+          new Response(responseShort, { headers: { ETag: '"abc"' } }),
+        middleware: [
+          compression({ threshold: 0, compressStream: false, etag: 'weak' }),
+        ],
+      })
+    ])
+    const server = new Server(routes)
+    const res = await server.fetch(req({ 'if-none-match': 'W/"abc"' }))
+
+    expect(res.status).toBe(304)
+    expect(res.headers.get('ETag')).toBe('W/"abc"')
+    expect(res.headers.get('Content-Encoding')).toBeNull()
+    expect(res.headers.get('Content-Length')).toBeNull()
+  })
+
+  it(`Shouldn't compress when the filter returns false`, async () => {
+    const onSkip = vi.fn()
+    const routes = defineRoutes([
+      defineRoute({
+        method: 'GET',
+        path: '/',
+        handler: () => responseShort,
+        middleware: [
+          compression({
+            threshold: 0,
+            compressStream: false,
+            filter: (request) => !request.headers.has('x-raw'),
+            onSkip,
+          }),
+        ],
+      })
+    ])
+    const server = new Server(routes)
+    const res = await server.fetch(req({ 'x-raw': '1' }))
+    const res2 = await server.fetch(req())
+
+    expect(res.headers.get('Content-Encoding')).toBeNull()
+    expect(onSkip.mock.calls[0]?.[0]).toBe('filter')
+    expect(res2.headers.get('Content-Encoding')).toBe('br')
+  })
+
+  it('Should extend and restrict the compressible types', async () => {
+    const types = {
+      svg: 'image/svg+xml',
+      wasm: 'application/wasm',
+      bin: 'application/octet-stream',
+      png: 'image/png',
+    }
+    const routes = defineRoutes(
+      Object.entries(types).map(([name, type]) =>
+        defineRoute({
+          method: 'GET',
+          path: `/${name}`,
+          handler: () =>
+            new Response(responseShort, { headers: { 'Content-Type': type } }),
+          middleware: [
+            compression({
+              threshold: 0,
+              compressStream: false,
+              compressibleTypes: {
+                include: ['image/svg+xml', /^application\/wasm$/],
+                exclude: ['application/octet-stream'],
+              },
+            }),
+          ],
+        }),
+      ),
+    )
+    const server = new Server(routes)
+    const encodingOf = async (name: string) =>
+      (
+        await server.fetch(new Request(`http://localhost/${name}`, req()))
+      ).headers.get('Content-Encoding')
+
+    expect(await encodingOf('svg')).toBe('br')
+    expect(await encodingOf('wasm')).toBe('br')
+    expect(await encodingOf('bin')).toBeNull()
+    expect(await encodingOf('png')).toBeNull()
+  })
+
+  it('Should apply per-route overrides', async () => {
+    const routes = defineRoutes(
+      ['/api/export/report', '/api/live', '/other'].map((path) =>
+        defineRoute({
+          method: 'GET',
+          path,
+          handler: () => responseShort,
+          middleware: [
+            compression({
+              threshold: 0,
+              compressStream: false,
+              routes: [
+                {
+                  path: '/api/export',
+                  encodings: ['br'],
+                  brotliOptions: {
+                    params: { [zlib.constants.BROTLI_PARAM_QUALITY]: 11 },
+                  },
+                },
+                {
+                  path: /^\/api\/live/,
+                  encodings: ['gzip'],
+                  zlibOptions: { level: 1 },
+                },
+              ],
+            }),
+          ],
+        }),
+      ),
+    )
+    const server = new Server(routes)
+    const fetch = (path: string) =>
+      server.fetch(new Request(`http://localhost${path}`, req()))
+
+    const exported = await fetch('/api/export/report')
+    expect(exported.headers.get('Content-Encoding')).toBe('br')
+    expect(await exported.arrayBuffer()).toEqual(
+      new Uint8Array(
+        zlib.brotliCompressSync(responseShort, {
+          params: { [zlib.constants.BROTLI_PARAM_QUALITY]: 11 },
+        }),
+      ).buffer,
+    )
+
+    const live = await fetch('/api/live')
+    expect(live.headers.get('Content-Encoding')).toBe('gzip')
+    expect(zlib.gunzipSync(await live.arrayBuffer()).toString('utf-8')).toBe(
+      responseShort,
+    )
+
+    const other = await fetch('/other')
+    expect(other.headers.get('Content-Encoding')).toBe('br')
+  })
+
+  it('should flush compressed Server-Sent Events as they are sent', async () => {
+    let controller!: ReadableStreamDefaultController<Uint8Array>
+    const routes = defineRoutes([
+      defineRoute({
+        method: 'GET',
+        path: '/',
+        handler: () =>
+          new Response(
+            new ReadableStream<Uint8Array>({
+              start(streamController) {
+                controller = streamController
+                controller.enqueue(new TextEncoder().encode('data: tick\n\n'))
+              },
+            }),
+            { headers: { 'Content-Type': 'text/event-stream' } },
+          ),
+        middleware: [compression({ encodings: ['br'] })],
+      }),
+    ])
+    const server = new Server(routes)
+    const res = await server.fetch(req())
+    const reader = (res.body as ReadableStream<Uint8Array>).getReader()
+    const { value } = await reader.read()
+
+    expect(res.headers.get('Content-Encoding')).toBe('br')
+    expect(
+      zlib
+        .brotliDecompressSync(value as Uint8Array, {
+          finishFlush: zlib.constants.BROTLI_OPERATION_FLUSH,
+        })
+        .toString('utf-8'),
+    ).toBe('data: tick\n\n')
+
+    controller.close()
+    await reader.read()
+  })
+
+  it('should not flush Server-Sent Events when flush is disabled', async () => {
+    let controller!: ReadableStreamDefaultController<Uint8Array>
+    const routes = defineRoutes([
+      defineRoute({
+        method: 'GET',
+        path: '/',
+        handler: () =>
+          new Response(
+            new ReadableStream<Uint8Array>({
+              start(streamController) {
+                controller = streamController
+                controller.enqueue(new TextEncoder().encode('data: tick\n\n'))
+              },
+            }),
+            { headers: { 'Content-Type': 'text/event-stream' } },
+          ),
+        middleware: [compression({ encodings: ['br'], flush: false })],
+      }),
+    ])
+    const server = new Server(routes)
+    const res = await server.fetch(req())
+    const body = new Response(res.body).arrayBuffer()
+    const chunk = await Promise.race([
+      body,
+      new Promise<undefined>((resolve) => setTimeout(resolve, 50)),
+    ])
+
+    expect(chunk).toBeUndefined()
+
+    controller.close()
+    expect(zlib.brotliDecompressSync(await body).toString('utf-8')).toBe(
+      'data: tick\n\n',
+    )
+  })
+
+  it('should cancel the handler stream when the client disconnects', async () => {
+    const cancel = vi.fn()
+    const routes = defineRoutes([
+      defineRoute({
+        method: 'GET',
+        path: '/',
+        handler: () =>
+          new Response(
+            new ReadableStream<Uint8Array>({
+              pull(controller) {
+                controller.enqueue(new TextEncoder().encode(responseShort))
+              },
+              cancel,
+            }),
+          ),
+        middleware: [compression({ encodings: ['gzip'], flush: 'chunk' })],
+      }),
+    ])
+    const server = new Server(routes)
+    const res = await server.fetch(req())
+    const reader = (res.body as ReadableStream<Uint8Array>).getReader()
+
+    await reader.read()
+    await reader.cancel(new Error('client disconnected'))
+
+    await vi.waitFor(() => expect(cancel).toHaveBeenCalled())
+  })
+
+  it.each(['async', 'worker'] as const)(
+    'should compress buffered bodies in %s mode',
+    async (mode) => {
+      const routes = defineRoutes([
+        defineRoute({
+          method: 'GET',
+          path: '/',
+          handler: () => jsonResponse,
+          middleware: [
+            compression({
+              encodings: ['br'],
+              compressStream: false,
+              mode,
+              workerPool: { size: 1 },
+            }),
+          ],
+        }),
+      ])
+      const server = new Server(routes)
+      const res = await server.fetch(req())
+      const body = Buffer.from(await res.arrayBuffer())
+
+      expect(res.headers.get('Content-Encoding')).toBe('br')
+      expect(res.headers.get('Content-Length')).toBe(String(body.byteLength))
+      expect(zlib.brotliDecompressSync(body).toString('utf-8')).toBe(
+        jsonResponse,
+      )
+    },
+  )
+
+  it('should stream buffered bodies above the stream threshold', async () => {
+    const cache = new MemCache()
+    const routes = defineRoutes([
+      defineRoute({
+        method: 'GET',
+        path: '/',
+        handler: () => jsonResponse,
+        middleware: [
+          compression({
+            encodings: ['gzip'],
+            compressStream: false,
+            streamThreshold: 1024,
+            cache,
+          }),
+        ],
+      }),
+    ])
+    const server = new Server(routes)
+    const res = await server.fetch(req())
+
+    expect(res.headers.get('Content-Encoding')).toBe('gzip')
+    expect(res.headers.get('Content-Length')).toBeNull()
+    expect(zlib.gunzipSync(await res.arrayBuffer()).toString('utf-8')).toBe(
+      jsonResponse,
+    )
+    expect(cache.size).toBe(0)
+  })
+
+  it('should adapt the brotli quality to cacheable responses', async () => {
+    const routes = defineRoutes([
+      defineRoute({
+        method: 'GET',
+        path: '/',
+        handler: () =>
+          new Response(responseLong, {
+            headers: {
+              'Content-Type': 'text/plain',
+              'Cache-Control': 'public, max-age=3600',
+            },
+          }),
+        middleware: [
+          compression({
+            encodings: ['br'],
+            compressStream: false,
+            adaptive: true,
+            tuning: false,
+            brotliOptions: {
+              params: { [zlib.constants.BROTLI_PARAM_QUALITY]: 1 },
+            },
+          }),
+        ],
+      }),
+    ])
+    const server = new Server(routes)
+    const res = await server.fetch(req())
+
+    const expected = zlib.brotliCompressSync(responseLong, {
+      params: { [zlib.constants.BROTLI_PARAM_QUALITY]: 11 },
+    })
+
+    expect(Buffer.from(await res.arrayBuffer()).equals(expected)).toBe(true)
+  })
+
+  it('should fall back to fast gzip when the server is saturated', async () => {
+    const routes = defineRoutes([
+      defineRoute({
+        method: 'GET',
+        path: '/',
+        handler: () => jsonResponse,
+        middleware: [
+          compression({
+            compressStream: false,
+            adaptive: { maxInFlight: 0 },
+          }),
+        ],
+      }),
+    ])
+    const server = new Server(routes)
+    const res = await server.fetch(req())
+
+    const expected = zlib.gzipSync(jsonResponse, { level: 1 })
+
+    expect(res.headers.get('Content-Encoding')).toBe('gzip')
+    expect(Buffer.from(await res.arrayBuffer()).equals(expected)).toBe(true)
+  })
+
+  it('should skip compression when saturated is disabled', async () => {
+    const onSkip = vi.fn()
+    const routes = defineRoutes([
+      defineRoute({
+        method: 'GET',
+        path: '/',
+        handler: () => jsonResponse,
+        middleware: [
+          compression({
+            compressStream: false,
+            adaptive: { maxInFlight: 0, saturated: false },
+            onSkip,
+          }),
+        ],
+      }),
+    ])
+    const server = new Server(routes)
+    const res = await server.fetch(req())
+
+    expect(res.headers.get('Content-Encoding')).toBeNull()
+    expect(onSkip).toHaveBeenCalledWith('saturated', expect.any(Request), res)
+  })
+
+  it('should report compressed responses with onCompress', async () => {
+    const onCompress = vi.fn()
+    const routes = defineRoutes([
+      defineRoute({
+        method: 'GET',
+        path: '/',
+        handler: () => jsonResponse,
+        middleware: [
+          compression({
+            encodings: ['gzip'],
+            compressStream: false,
+            onCompress,
+          }),
+        ],
+      }),
+    ])
+    const server = new Server(routes)
+    const res = await server.fetch(req())
+    await server.fetch(req())
+    const body = await res.arrayBuffer()
+
+    expect(onCompress).toHaveBeenCalledTimes(2)
+    expect(onCompress.mock.calls[0]?.[0]).toEqual({
+      encoding: 'gzip',
+      bytesIn: Buffer.byteLength(jsonResponse),
+      bytesOut: body.byteLength,
+      duration: expect.any(Number),
+      cached: false,
+      streamed: false,
+    })
+    expect(onCompress.mock.calls[1]?.[0].cached).toBe(true)
+  })
+
+  it('should report compressed streams once they end', async () => {
+    const onCompress = vi.fn()
+    const routes = defineRoutes([
+      defineRoute({
+        method: 'GET',
+        path: '/',
+        handler: () =>
+          new Response(
+            new ReadableStream<Uint8Array>({
+              start(controller) {
+                controller.enqueue(new TextEncoder().encode(responseShort))
+                setTimeout(() => {
+                  controller.enqueue(new TextEncoder().encode(responseShort))
+                  controller.close()
+                }, 10)
+              },
+            }),
+          ),
+        middleware: [
+          compression({ encodings: ['br'], threshold: 1, onCompress }),
+        ],
+      }),
+    ])
+    const server = new Server(routes)
+    const res = await server.fetch(req())
+
+    expect(onCompress).not.toHaveBeenCalled()
+
+    const body = await res.arrayBuffer()
+    expect(onCompress).toHaveBeenCalledWith(
+      {
+        encoding: 'br',
+        bytesIn: Buffer.byteLength(responseShort) * 2,
+        bytesOut: body.byteLength,
+        duration: expect.any(Number),
+        streamed: true,
+      },
+      expect.any(Request),
+      expect.any(Response),
+    )
+  })
+
+  describe('lifecycle', () => {
+    const refused = () => req({ 'accept-encoding': 'br, identity;q=0' })
+
+    it('should not run the handler for refused requests before it', async () => {
+      const handler = vi.fn(() => responseLong)
+      const server = new Server(
+        defineRoutes([
+          defineRoute({
+            method: 'GET',
+            path: '/',
+            handler,
+            middleware: [compression({ encodings: ['gzip'], as: 'before' })],
+          }),
+        ]),
+      )
+      const res = await server.fetch(refused())
+
+      expect(res.status).toBe(406)
+      expect(res.headers.get('Vary')).toBe('accept-encoding')
+      expect(handler).not.toHaveBeenCalled()
+    })
+
+    it('should run the handler for refused requests after it', async () => {
+      const handler = vi.fn(() => responseLong)
+      const server = new Server(
+        defineRoutes([
+          defineRoute({
+            method: 'GET',
+            path: '/',
+            handler,
+            middleware: [compression({ encodings: ['gzip'] })],
+          }),
+        ]),
+      )
+      const res = await server.fetch(refused())
+
+      expect(res.status).toBe(406)
+      expect(handler).toHaveBeenCalledOnce()
+    })
+
+    it('should expose the encoding negotiated before the handler', async () => {
+      const encodings: unknown[] = []
+      const handler = ({ req: request }: { req: Request }) => {
+        encodings.push(getNegotiatedEncoding(request))
+        return responseLong
+      }
+      const server = new Server(
+        defineRoutes([
+          defineRoute({
+            method: 'GET',
+            path: '/before',
+            handler,
+            middleware: [compression({ as: 'before' })],
+          }),
+          defineRoute({
+            method: 'GET',
+            path: '/after',
+            handler,
+            middleware: [compression({ as: 'after' })],
+          }),
+        ]),
+      )
+      const before = await server.fetch(
+        new Request('http://localhost/before', req()),
+      )
+      await server.fetch(new Request('http://localhost/after', req()))
+
+      expect(encodings).toEqual(['br', undefined])
+      expect(before.headers.get('Content-Encoding')).toBe('br')
+    })
+
+    it('should compress every route when registered globally', async () => {
+      const server = new Server(
+        defineRoutes([
+          defineRoute({
+            method: 'GET',
+            path: '/a',
+            handler: () => responseLong,
+          }),
+          defineRoute({
+            method: 'GET',
+            path: '/b',
+            handler: () => responseLong,
+          }),
+        ]),
+      )
+      server.use(compression({ encodings: ['gzip'] }))
+
+      for (const path of ['/a', '/b']) {
+        const res = await server.fetch(
+          new Request(`http://localhost${path}`, req()),
+        )
+        expect(res.headers.get('Content-Encoding')).toBe('gzip')
+      }
+    })
+
+    it('should only compress the routes of a group it is scoped to', async () => {
+      const server = new Server(
+        defineRoutes([
+          defineRoute({
+            path: '/api',
+            middleware: [compression({ encodings: ['gzip'] })],
+            children: [
+              defineRoute({
+                method: 'GET',
+                path: '/data',
+                handler: () => responseLong,
+              }),
+            ],
+          }),
+          defineRoute({
+            method: 'GET',
+            path: '/page',
+            handler: () => responseLong,
+          }),
+        ]),
+      )
+      const scoped = await server.fetch(
+        new Request('http://localhost/api/data', req()),
+      )
+      const unscoped = await server.fetch(
+        new Request('http://localhost/page', req()),
+      )
+
+      expect(scoped.headers.get('Content-Encoding')).toBe('gzip')
+      expect(unscoped.headers.get('Content-Encoding')).toBeNull()
+    })
+
+    it('should see the headers of the middleware registered after it', async () => {
+      const etag = defineMiddleware<object>(async (_req, next) => {
+        const response = await next()
+        response.headers.set('ETag', '"v1"')
+        return response
+      })
+      const server = new Server(
+        defineRoutes([
+          defineRoute({
+            method: 'GET',
+            path: '/outer',
+            handler: () => responseLong,
+            middleware: [compression({ encodings: ['br'] }), etag],
+          }),
+          defineRoute({
+            method: 'GET',
+            path: '/inner',
+            handler: () => responseLong,
+            middleware: [etag, compression({ encodings: ['br'] })],
+          }),
+        ]),
+      )
+      const outer = await server.fetch(
+        new Request('http://localhost/outer', req()),
+      )
+      const inner = await server.fetch(
+        new Request('http://localhost/inner', req()),
+      )
+
+      expect(outer.headers.get('ETag')).toBe('"v1-br"')
+      expect(inner.headers.get('Content-Encoding')).toBe('br')
+      expect(inner.headers.get('ETag')).toBe('"v1"')
+    })
+  })
+
+  describe('dictionaries', () => {
+    const dictionary = responseShort.repeat(3)
+    const availableDictionary = (content: string) =>
+      `:${createHash('sha256').update(content).digest('base64')}:`
+    const createServer = () => {
+      const dictionaries = createDictionaryStore({
+        dictionaries: [
+          { path: '/api.dict', match: '/api/*', content: dictionary },
+        ],
+        derive: ['/assets/app.*.js'],
+      })
+
+      return new Server(
+        defineRoutes([
+          defineRoute({
+            method: 'GET',
+            path: '/api/data',
+            handler: () => responseLong,
+            middleware: [compression({ dictionaries })],
+          }),
+          defineRoute({
+            method: 'GET',
+            path: '/api/tagged',
+            handler: () =>
+              new Response(responseLong, { headers: { ETag: '"e"' } }),
+            middleware: [compression({ dictionaries })],
+          }),
+          defineRoute({
+            method: 'GET',
+            path: '/assets/:file',
+            handler: ({ params }: { params: { file: string } }) =>
+              `${params.file} ${responseLong}`,
+            middleware: [compression({ dictionaries })],
+          }),
+        ]),
+      )
+    }
+
+    it.runIf(isDictionaryEncodingSupported('dcz'))(
+      'should compress against an announced dictionary with dcz',
+      async () => {
+        const res = await createServer().fetch(
+          new Request('http://localhost/api/data', {
+            headers: {
+              'accept-encoding': 'br, gzip, zstd, dcb, dcz',
+              'available-dictionary': availableDictionary(dictionary),
+            },
+          }),
+        )
+        const body = Buffer.from(await res.arrayBuffer())
+
+        expect(res.headers.get('Content-Encoding')).toBe('dcz')
+        expect(res.headers.get('Vary')).toBe(
+          'accept-encoding, available-dictionary',
+        )
+        expect(res.headers.get('Link')).toBeNull()
+        expect(
+          body
+            .subarray(8, 40)
+            .equals(createHash('sha256').update(dictionary).digest()),
+        ).toBe(true)
+        expect(
+          zlib
+            .zstdDecompressSync(body.subarray(40), {
+              dictionary: Buffer.from(dictionary),
+            })
+            .toString('utf-8'),
+        ).toBe(responseLong)
+      },
+    )
+
+    it.runIf(isDictionaryEncodingSupported('dcz'))(
+      'should suffix ETags with the dictionary hash',
+      async () => {
+        const res = await createServer().fetch(
+          new Request('http://localhost/api/tagged', {
+            headers: {
+              'accept-encoding': 'br, dcz',
+              'available-dictionary': availableDictionary(dictionary),
+            },
+          }),
+        )
+        const hash = createHash('sha256').update(dictionary).digest('hex')
+
+        expect(res.headers.get('Content-Encoding')).toBe('dcz')
+        expect(res.headers.get('ETag')).toBe(`"e-dcz-${hash.slice(0, 8)}"`)
+      },
+    )
+
+    it.runIf(isDictionaryEncodingSupported('dcz'))(
+      'should compress against a previous response kept as dictionary',
+      async () => {
+        const server = createServer()
+        const first = await server.fetch(
+          new Request('http://localhost/assets/app.v1.js', req()),
+        )
+        // Streamed bodies are kept once fully sent
+        await first.arrayBuffer()
+        const second = await server.fetch(
+          new Request('http://localhost/assets/app.v2.js', {
+            headers: {
+              'accept-encoding': 'br, dcz',
+              'available-dictionary': availableDictionary(
+                `app.v1.js ${responseLong}`,
+              ),
+            },
+          }),
+        )
+
+        expect(first.headers.get('Use-As-Dictionary')).toBe(
+          'match="/assets/app.*.js"',
+        )
+        expect(second.headers.get('Content-Encoding')).toBe('dcz')
+        expect((await second.arrayBuffer()).byteLength).toBeLessThan(100)
+      },
+    )
+
+    it('should advertise dictionaries to clients without them', async () => {
+      const res = await createServer().fetch(
+        new Request('http://localhost/api/data', req()),
+      )
+
+      expect(res.headers.get('Content-Encoding')).toBe('br')
+      expect(res.headers.get('Vary')).toBe(
+        'accept-encoding, available-dictionary',
+      )
+      expect(res.headers.get('Link')).toBe(
+        '</api.dict>; rel="compression-dictionary"',
+      )
+    })
+
+    it('should ignore dictionaries when dcz is not accepted', async () => {
+      const res = await createServer().fetch(
+        new Request('http://localhost/api/data', {
+          headers: {
+            'accept-encoding': 'gzip',
+            'available-dictionary': availableDictionary(dictionary),
+          },
+        }),
+      )
+
+      expect(res.headers.get('Content-Encoding')).toBe('gzip')
+    })
+  })
+
+  describe('cache warming', () => {
+    const createServer = (middleware: ReturnType<typeof compression>) =>
+      new Server(
+        defineRoutes([
+          defineRoute({
+            method: 'GET',
+            path: '/',
+            handler: () => responseLong,
+            middleware: [middleware],
+          }),
+        ]),
+      )
+
+    it('should serve stale bodies while recompressing them', async () => {
+      const cache = new MemCache<Buffer>()
+      const set = vi.spyOn(cache, 'set')
+      const onCompress = vi.fn()
+      const server = createServer(
+        compression({
+          encodings: ['gzip'],
+          compressStream: false,
+          cache,
+          TTL: 0.05,
+          staleWhileRevalidate: 60,
+          onCompress,
+        }),
+      )
+
+      await server.fetch(req())
+      await new Promise((resolve) => setTimeout(resolve, 60))
+      const stale = await server.fetch(req())
+
+      expect(onCompress.mock.calls.map(([event]) => event.cached)).toEqual([
+        false,
+        true,
+      ])
+      expect(zlib.gunzipSync(await stale.arrayBuffer()).toString()).toBe(
+        responseLong,
+      )
+      await vi.waitFor(() => expect(set).toHaveBeenCalledTimes(2))
+      expect(set).toHaveBeenLastCalledWith(
+        expect.any(String),
+        expect.any(Buffer),
+        0.05,
+        60,
+      )
+    })
+
+    it('should swap in the background level once computed', async () => {
+      const cache = new MemCache<Buffer>()
+      const set = vi.spyOn(cache, 'set')
+      const server = createServer(
+        compression({
+          encodings: ['br'],
+          compressStream: false,
+          cache,
+          brotliOptions: {
+            params: { [zlib.constants.BROTLI_PARAM_QUALITY]: 1 },
+          },
+          backgroundLevel: { br: 11 },
+        }),
+      )
+
+      const fast = await (await server.fetch(req())).arrayBuffer()
+      await vi.waitFor(() => expect(set).toHaveBeenCalledTimes(2))
+      const strong = await (await server.fetch(req())).arrayBuffer()
+
+      expect(strong.byteLength).toBeLessThan(fast.byteLength)
+      expect(zlib.brotliDecompressSync(strong).toString()).toBe(responseLong)
+    })
+
+    it('should warm the cache from a response', async () => {
+      const onCompress = vi.fn()
+      const middleware = compression({
+        encodings: ['br', 'gzip'],
+        compressStream: false,
+        onCompress,
+      })
+      const server = createServer(middleware)
+
+      await middleware.warm(new Response(responseLong))
+      await server.fetch(req())
+      await server.fetch(req({ 'accept-encoding': 'gzip' }))
+
+      expect(onCompress.mock.calls.map(([event]) => event.cached)).toEqual([
+        true,
+        true,
+      ])
+    })
+
+    it('should warm the cache from a URL', async () => {
+      const onCompress = vi.fn()
+      const middleware = compression({
+        encodings: ['gzip'],
+        compressStream: false,
+        onCompress,
+      })
+      const server = createServer(middleware)
+
+      await middleware.warm('/', { fetch: (request) => server.fetch(request) })
+      const res = await server.fetch(req())
+
+      expect(onCompress).toHaveBeenCalledOnce()
+      expect(onCompress.mock.calls[0]?.[0].cached).toBe(true)
+      expect(zlib.gunzipSync(await res.arrayBuffer()).toString()).toBe(
+        responseLong,
+      )
+    })
+
+    it('should require a base URL or fetch to warm relative paths', async () => {
+      const middleware = compression()
+
+      await expect(middleware.warm('/')).rejects.toThrow(TypeError)
+    })
+
+    it('should keep the headers of a warmed request', async () => {
+      const fetch = vi.fn((_: Request) => new Response(responseLong))
+
+      await compression().warm(
+        new Request('http://localhost/', { headers: { 'x-tenant': 'a' } }),
+        { fetch },
+      )
+
+      const request = fetch.mock.calls[0]?.[0]
+      expect(request?.headers.get('x-tenant')).toBe('a')
+      expect(request?.headers.get('accept-encoding')).toBe('identity')
+    })
+
+    it('should warm the adaptive level', async () => {
+      const onCompress = vi.fn()
+      const middleware = compression({
+        encodings: ['br'],
+        compressStream: false,
+        adaptive: true,
+        onCompress,
+      })
+      const cacheable = () =>
+        new Response(responseLong, {
+          headers: { 'Cache-Control': 'public, max-age=60' },
+        })
+      const server = new Server(
+        defineRoutes([
+          defineRoute({
+            method: 'GET',
+            path: '/',
+            handler: cacheable,
+            middleware: [middleware],
+          }),
+        ]),
+      )
+
+      await middleware.warm(cacheable())
+      await server.fetch(req())
+
+      expect(onCompress.mock.calls[0]?.[0].cached).toBe(true)
+    })
+  })
+
+  describe('incompressible payloads', () => {
+    const createServer = (
+      middleware: ReturnType<typeof compression>,
+      body: () => BodyInit,
+    ) =>
+      new Server(
+        defineRoutes([
+          defineRoute({
+            method: 'GET',
+            path: '/blob',
+            handler: () =>
+              new Response(body(), {
+                headers: { 'Content-Type': 'application/octet-stream' },
+              }),
+            middleware: [middleware],
+          }),
+        ]),
+      )
+    const blob = () =>
+      new Request('http://localhost/blob', {
+        headers: { 'accept-encoding': 'gzip' },
+      })
+
+    it('should skip bodies with a high entropy without compressing them', async () => {
+      const onSkip = vi.fn()
+      const onCompress = vi.fn()
+      const server = createServer(
+        compression({ compressStream: false, onSkip, onCompress }),
+        () => new Uint8Array(randomBytes(8192)),
+      )
+      const res = await server.fetch(blob())
+
+      expect(res.headers.get('Content-Encoding')).toBeNull()
+      expect((await res.arrayBuffer()).byteLength).toBe(8192)
+      expect(onSkip.mock.calls[0]?.[0]).toBe('incompressible')
+      expect(onCompress).not.toHaveBeenCalled()
+    })
+
+    it('should send the original body when compression saves too little', async () => {
+      const onSkip = vi.fn()
+      const server = createServer(
+        compression({
+          compressStream: false,
+          entropySampling: false,
+          minSavings: 0.1,
+          onSkip,
+        }),
+        () => new Uint8Array(randomBytes(8192)),
+      )
+      const res = await server.fetch(blob())
+
+      expect(res.headers.get('Content-Encoding')).toBeNull()
+      expect((await res.arrayBuffer()).byteLength).toBe(8192)
+      expect(onSkip.mock.calls[0]?.[0]).toBe('insufficient-savings')
+    })
+
+    it('should remember incompressible routes and content types', async () => {
+      const onSkip = vi.fn()
+      let body: BodyInit = new Uint8Array(randomBytes(8192))
+      const server = createServer(
+        compression({ compressStream: false, onSkip }),
+        () => body,
+      )
+
+      await server.fetch(blob())
+      body = responseLong
+      const res = await server.fetch(blob())
+
+      expect(res.headers.get('Content-Encoding')).toBeNull()
+      expect(onSkip.mock.calls.map(([reason]) => reason)).toEqual([
+        'incompressible',
+        'incompressible',
+      ])
+    })
+
+    it('should try again when outcomes are not remembered', async () => {
+      let body: BodyInit = new Uint8Array(randomBytes(8192))
+      const server = createServer(
+        compression({ compressStream: false, incompressibleTTL: 0 }),
+        () => body,
+      )
+
+      await server.fetch(blob())
+      body = responseLong
+      const res = await server.fetch(blob())
+
+      expect(res.headers.get('Content-Encoding')).toBe('gzip')
+    })
+  })
+
+  describe('body dispatch', () => {
+    const image = readFileSync(resolve(__dirname, 'waifu.png'))
+    const createServer = (
+      handler: () => Response | string,
+      middleware: ReturnType<typeof compression>,
+    ) =>
+      new Server(
+        defineRoutes([
+          defineRoute({
+            method: 'GET',
+            path: '/',
+            handler,
+            middleware: [middleware],
+          }),
+        ]),
+      )
+    const delayedStream = (...chunks: string[]) =>
+      new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          await new Promise((resolve) => setTimeout(resolve, 10))
+          const chunk = chunks.shift()
+          if (chunk === undefined) {
+            controller.close()
+          } else {
+            controller.enqueue(new TextEncoder().encode(chunk))
+          }
+        },
+      })
+
+    it('should not compress images', async () => {
+      const onSkip = vi.fn()
+      const server = createServer(
+        () =>
+          new Response(new Uint8Array(image), {
+            headers: { 'Content-Type': 'image/png' },
+          }),
+        compression({ onSkip }),
+      )
+      const res = await server.fetch(req())
+
+      expect(res.headers.get('Content-Encoding')).toBeNull()
+      expect(Buffer.from(await res.arrayBuffer()).equals(image)).toBe(true)
+      expect(onSkip.mock.calls[0]?.[0]).toBe('content-type')
+    })
+
+    it('should not compress bodies below the threshold', async () => {
+      const onSkip = vi.fn()
+      const server = createServer(() => 'tiny body', compression({ onSkip }))
+      const res = await server.fetch(req())
+
+      expect(res.headers.get('Content-Encoding')).toBeNull()
+      expect(await res.text()).toBe('tiny body')
+      expect(onSkip.mock.calls[0]?.[0]).toBe('threshold')
+    })
+
+    it('should cache buffered bodies', async () => {
+      const cache = new MemCache<Buffer>()
+      const onCompress = vi.fn()
+      const server = createServer(
+        () => responseLong,
+        compression({ encodings: ['gzip'], cache, onCompress }),
+      )
+
+      await server.fetch(req())
+      const res = await server.fetch(req())
+
+      expect(cache.size).toBe(1)
+      expect(res.headers.get('Content-Length')).not.toBeNull()
+      expect(onCompress.mock.calls.map(([event]) => event.cached)).toEqual([
+        false,
+        true,
+      ])
+      expect(zlib.gunzipSync(await res.arrayBuffer()).toString()).toBe(
+        responseLong,
+      )
+    })
+
+    it('should not compress streams ending below the threshold', async () => {
+      const onSkip = vi.fn()
+      const server = createServer(
+        () => new Response(delayedStream('hello ', 'world')),
+        compression({ onSkip }),
+      )
+      const res = await server.fetch(req())
+
+      expect(res.headers.get('Content-Encoding')).toBeNull()
+      expect(await res.text()).toBe('hello world')
+      expect(onSkip.mock.calls[0]?.[0]).toBe('threshold')
+    })
+
+    it('should compress streams reaching the threshold as streams', async () => {
+      const onCompress = vi.fn()
+      const server = createServer(
+        () => new Response(delayedStream(responseShort, responseShort, 'end')),
+        compression({ encodings: ['gzip'], threshold: 512, onCompress }),
+      )
+      const res = await server.fetch(req())
+
+      expect(res.headers.get('Content-Encoding')).toBe('gzip')
+      expect(res.headers.get('Content-Length')).toBeNull()
+      expect(zlib.gunzipSync(await res.arrayBuffer()).toString()).toBe(
+        `${responseShort}${responseShort}end`,
+      )
+      expect(onCompress.mock.calls[0]?.[0].streamed).toBe(true)
+    })
+
+    it('should stream bodies whose Content-Length exceeds the stream threshold', async () => {
+      const onCompress = vi.fn()
+      const server = createServer(
+        () =>
+          new Response(responseLong, {
+            headers: {
+              'Content-Length': String(Buffer.byteLength(responseLong)),
+            },
+          }),
+        compression({
+          encodings: ['gzip'],
+          streamThreshold: 1024,
+          onCompress,
+        }),
+      )
+      const res = await server.fetch(req())
+
+      expect(zlib.gunzipSync(await res.arrayBuffer()).toString()).toBe(
+        responseLong,
+      )
+      expect(onCompress.mock.calls[0]?.[0].streamed).toBe(true)
+    })
+
+    it('should stream large bodies with a Content-Length by default', async () => {
+      const onCompress = vi.fn()
+      const body = responseShort.repeat(20000)
+      const server = createServer(
+        () =>
+          new Response(body, {
+            headers: { 'Content-Length': String(Buffer.byteLength(body)) },
+          }),
+        compression({ encodings: ['gzip'], onCompress }),
+      )
+      const res = await server.fetch(req())
+
+      expect(zlib.gunzipSync(await res.arrayBuffer()).toString()).toBe(body)
+      expect(onCompress.mock.calls[0]?.[0].streamed).toBe(true)
+    })
+
+    it('should not hold back the headers of flushed streams', async () => {
+      let close = () => {}
+      const server = createServer(
+        () =>
+          new Response(
+            new ReadableStream<Uint8Array>({
+              start(controller) {
+                controller.enqueue(new TextEncoder().encode('{"items":['))
+                close = () => controller.close()
+              },
+            }),
+            { headers: { 'Content-Type': 'application/json' } },
+          ),
+        compression({ encodings: ['gzip'], flush: 'chunk' }),
+      )
+      const res = await server.fetch(req())
+      const reader = (res.body as ReadableStream<Uint8Array>).getReader()
+      const chunks: Uint8Array[] = []
+      const decoded = () =>
+        zlib
+          .gunzipSync(Buffer.concat(chunks), {
+            finishFlush: zlib.constants.Z_SYNC_FLUSH,
+          })
+          .toString()
+      // The gzip header and the flushed chunk may arrive separately
+      while (chunks.length < 3 && decoded() === '') {
+        chunks.push((await reader.read()).value as Uint8Array)
+      }
+
+      expect(res.headers.get('Content-Encoding')).toBe('gzip')
+      expect(decoded()).toBe('{"items":[')
+      close()
+      await reader.cancel()
+    })
+
+    it('should leave Server-Sent Events alone without compressStream', async () => {
+      const onSkip = vi.fn()
+      const server = createServer(
+        () =>
+          new Response(
+            new ReadableStream<Uint8Array>({
+              start(controller) {
+                controller.enqueue(new TextEncoder().encode('data: tick\n\n'))
+              },
+            }),
+            { headers: { 'Content-Type': 'text/event-stream' } },
+          ),
+        compression({ compressStream: false, onSkip }),
+      )
+      const res = await server.fetch(req())
+      const reader = (res.body as ReadableStream<Uint8Array>).getReader()
+      const { value } = await reader.read()
+
+      expect(res.headers.get('Content-Encoding')).toBeNull()
+      expect(new TextDecoder().decode(value)).toBe('data: tick\n\n')
+      expect(onSkip.mock.calls[0]?.[0]).toBe('content-type')
+      await reader.cancel()
+    })
+  })
+
+  describe('BREACH mitigation', () => {
+    const html = `<html><body><form><input name="csrf" value="secret-token"></form>${responseLong}</body></html>`
+    const createServer = (
+      middleware: ReturnType<typeof compression>,
+      headers: Record<string, string> = {},
+    ) =>
+      new Server(
+        defineRoutes([
+          defineRoute({
+            method: 'GET',
+            path: '/',
+            handler: () =>
+              new Response(html, {
+                headers: { 'Content-Type': 'text/html', ...headers },
+              }),
+            middleware: [middleware],
+          }),
+        ]),
+      )
+
+    it('should not compress responses flagged by the marker header', async () => {
+      const onSkip = vi.fn()
+      const server = createServer(compression({ breach: true, onSkip }), {
+        'x-compression-sensitive': '1',
+      })
+      const res = await server.fetch(req())
+
+      expect(res.headers.get('Content-Encoding')).toBeNull()
+      expect(res.headers.has('x-compression-sensitive')).toBe(false)
+      expect(await res.text()).toBe(html)
+      expect(onSkip.mock.calls[0]?.[0]).toBe('sensitive')
+    })
+
+    it('should not compress responses flagged by the predicate', async () => {
+      const server = createServer(
+        compression({
+          breach: {
+            sensitive: (request) => new URL(request.url).search !== '',
+          },
+        }),
+      )
+      const plain = await server.fetch(req())
+      const reflected = await server.fetch(
+        new Request('http://localhost/?q=secret', req()),
+      )
+
+      expect(plain.headers.get('Content-Encoding')).toBe('br')
+      expect(reflected.headers.get('Content-Encoding')).toBeNull()
+    })
+
+    it('should weaken the ETag of padded responses and not revalidate them', async () => {
+      const server = createServer(
+        compression({ encodings: ['gzip'], breach: true }),
+        { ETag: '"v1"' },
+      )
+      const res = await server.fetch(req({ 'accept-encoding': 'gzip' }))
+      const revalidated = await server.fetch(
+        req({ 'accept-encoding': 'gzip', 'if-none-match': 'W/"v1-gzip"' }),
+      )
+
+      expect(res.headers.get('ETag')).toBe('W/"v1-gzip"')
+      expect(revalidated.status).toBe(200)
+      expect(revalidated.headers.get('Content-Encoding')).toBe('gzip')
+    })
+
+    it('should vary the compressed length of identical responses', async () => {
+      const cache = new MemCache<Buffer>()
+      const server = createServer(
+        compression({ encodings: ['gzip'], breach: true, cache }),
+      )
+      const lengths = new Set<number>()
+
+      for (let index = 0; index < 20; index++) {
+        const res = await server.fetch(req())
+        const body = zlib.gunzipSync(await res.arrayBuffer()).toString()
+
+        expect(body.startsWith(html)).toBe(true)
+        expect(body.slice(html.length)).toMatch(/^<!--[\w-]*-->$/u)
+        lengths.add(Number(res.headers.get('Content-Length')))
+      }
+
+      expect(lengths.size).toBeGreaterThan(1)
+      expect(cache.size).toBe(0)
+    })
+
+    it('should keep identical lengths without the mitigation', async () => {
+      const server = createServer(compression({ encodings: ['gzip'] }))
+      const lengths = new Set<number>()
+
+      for (let index = 0; index < 5; index++) {
+        const res = await server.fetch(req())
+        lengths.add((await res.arrayBuffer()).byteLength)
+      }
+
+      expect(lengths.size).toBe(1)
+    })
+
+    it('should pad streamed JSON with whitespace', async () => {
+      const json = JSON.stringify({ token: maskSecret('secret'), responseLong })
+      const server = new Server(
+        defineRoutes([
+          defineRoute({
+            method: 'GET',
+            path: '/',
+            handler: () =>
+              new Response(
+                new ReadableStream<Uint8Array>({
+                  start(controller) {
+                    controller.enqueue(new TextEncoder().encode(json))
+                    setTimeout(() => controller.close(), 10)
+                  },
+                }),
+                { headers: { 'Content-Type': 'application/json' } },
+              ),
+            middleware: [
+              compression({ encodings: ['gzip'], breach: { padding: 64 } }),
+            ],
+          }),
+        ]),
+      )
+      const res = await server.fetch(req())
+      const body = zlib.gunzipSync(await res.arrayBuffer()).toString()
+
+      expect(body.slice(json.length)).toMatch(/^[ \t\n\r]*$/u)
+      expect(JSON.parse(body).responseLong).toBe(responseLong)
+    })
+  })
+
+  describe('status codes', () => {
+    const createServer = (
+      status: number,
+      middleware: ReturnType<typeof compression>,
+    ) =>
+      new Server(
+        defineRoutes([
+          defineRoute({
+            method: 'GET',
+            path: '/',
+            handler: () =>
+              new Response(status === 204 ? null : jsonResponse, {
+                status,
+                headers: { 'Content-Type': 'application/json' },
+              }),
+            middleware: [middleware],
+          }),
+        ]),
+      )
+
+    it('should not compress error responses by default', async () => {
+      const onSkip = vi.fn()
+      const res = await createServer(404, compression({ onSkip })).fetch(req())
+
+      expect(res.headers.get('Content-Encoding')).toBeNull()
+      expect(onSkip.mock.calls[0]?.[0]).toBe('status')
+    })
+
+    it('should compress the listed codes and ranges', async () => {
+      const middleware = compression({
+        encodings: ['gzip'],
+        statusCodes: [[200, 299], 422],
+      })
+      const res = await createServer(422, middleware).fetch(req())
+      const notFound = await createServer(404, middleware).fetch(req())
+
+      expect(res.status).toBe(422)
+      expect(res.headers.get('Content-Encoding')).toBe('gzip')
+      expect(res.headers.get('Vary')).toBe('accept-encoding')
+      expect(zlib.gunzipSync(await res.arrayBuffer()).toString()).toBe(
+        jsonResponse,
+      )
+      expect(notFound.headers.get('Content-Encoding')).toBeNull()
+    })
+
+    it('should compress the codes accepted by a predicate', async () => {
+      const middleware = compression({
+        encodings: ['br'],
+        statusCodes: (status) => status >= 500,
+      })
+      const res = await createServer(500, middleware).fetch(req())
+      const ok = await createServer(200, middleware).fetch(req())
+
+      expect(res.status).toBe(500)
+      expect(res.headers.get('Content-Encoding')).toBe('br')
+      expect(res.headers.get('Vary')).toBe('accept-encoding')
+      expect(ok.headers.get('Content-Encoding')).toBeNull()
+    })
+
+    it('should never compress responses without a body', async () => {
+      const res = await createServer(
+        204,
+        compression({ statusCodes: () => true }),
+      ).fetch(req())
+
+      expect(res.status).toBe(204)
+      expect(res.headers.get('Content-Encoding')).toBeNull()
+    })
+
+    it('should never compress byte ranges', async () => {
+      const onSkip = vi.fn()
+      const server = new Server(
+        defineRoutes([
+          defineRoute({
+            method: 'GET',
+            path: '/',
+            handler: () =>
+              new Response(jsonResponse, {
+                status: 206,
+                headers: {
+                  'Content-Type': 'application/json',
+                  'Content-Range': `bytes 0-${jsonResponse.length - 1}/*`,
+                },
+              }),
+            middleware: [compression({ statusCodes: [206], onSkip })],
+          }),
+        ]),
+      )
+      const res = await server.fetch(req())
+
+      expect(res.status).toBe(206)
+      expect(res.headers.get('Content-Encoding')).toBeNull()
+      expect(await res.text()).toBe(jsonResponse)
+      expect(onSkip.mock.calls[0]?.[0]).toBe('partial-content')
+    })
+  })
+
+  describe('tuning', () => {
+    const font = Buffer.from(responseLong.repeat(4))
+    const createServer = (
+      body: string | Buffer,
+      contentType: string,
+      middleware: ReturnType<typeof compression>,
+    ) =>
+      new Server(
+        defineRoutes([
+          defineRoute({
+            method: 'GET',
+            path: '/',
+            handler: () =>
+              new Response(new Uint8Array(Buffer.from(body)), {
+                headers: { 'Content-Type': contentType },
+              }),
+            middleware: [middleware],
+          }),
+        ]),
+      )
+
+    it('should compress JSON with the brotli text mode and a size hint', async () => {
+      const res = await createServer(
+        jsonResponse,
+        'application/json',
+        compression({ encodings: ['br'] }),
+      ).fetch(req())
+
+      const expected = zlib.brotliCompressSync(jsonResponse, {
+        params: {
+          [zlib.constants.BROTLI_PARAM_MODE]: zlib.constants.BROTLI_MODE_TEXT,
+          [zlib.constants.BROTLI_PARAM_SIZE_HINT]: 2 ** 18,
+          [zlib.constants.BROTLI_PARAM_LGWIN]: 18,
+        },
+      })
+      expect(Buffer.from(await res.arrayBuffer()).equals(expected)).toBe(true)
+    })
+
+    it('should compress fonts with the brotli font mode', async () => {
+      const res = await createServer(
+        font,
+        'font/woff2',
+        compression({
+          encodings: ['br'],
+          compressibleTypes: { include: ['font/*'] },
+        }),
+      ).fetch(req())
+
+      const expected = zlib.brotliCompressSync(font, {
+        params: {
+          [zlib.constants.BROTLI_PARAM_MODE]: zlib.constants.BROTLI_MODE_FONT,
+          [zlib.constants.BROTLI_PARAM_SIZE_HINT]: 2 ** 18,
+          [zlib.constants.BROTLI_PARAM_LGWIN]: 18,
+        },
+      })
+      expect(Buffer.from(await res.arrayBuffer()).equals(expected)).toBe(true)
+    })
+
+    it('should use smaller gzip windows for small bodies', async () => {
+      const res = await createServer(
+        responseShort.repeat(3),
+        'text/plain',
+        compression({ encodings: ['gzip'] }),
+      ).fetch(req())
+
+      const expected = zlib.gzipSync(responseShort.repeat(3), {
+        level: 6,
+        windowBits: 11,
+        memLevel: 4,
+      })
+      expect(Buffer.from(await res.arrayBuffer()).equals(expected)).toBe(true)
+    })
+
+    it('should apply the options of the content type', async () => {
+      const middleware = compression({
+        encodings: ['gzip'],
+        tuning: false,
+        contentTypeOptions: {
+          'application/json': { zlibOptions: { level: 1 } },
+        },
+      })
+      const json = await createServer(
+        jsonResponse,
+        'application/json',
+        middleware,
+      ).fetch(req())
+      const text = await createServer(
+        jsonResponse,
+        'text/plain',
+        middleware,
+      ).fetch(req())
+
+      expect(
+        Buffer.from(await json.arrayBuffer()).equals(
+          zlib.gzipSync(jsonResponse, { level: 1 }),
+        ),
+      ).toBe(true)
+      expect(
+        Buffer.from(await text.arrayBuffer()).equals(
+          zlib.gzipSync(jsonResponse, { level: 6 }),
+        ),
+      ).toBe(true)
+    })
+  })
 })
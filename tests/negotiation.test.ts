@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import { negotiateEncoding, parseAcceptEncoding } from '../src/negotiation'
+
+describe('parseAcceptEncoding', () => {
+  it('should parse codings with and without whitespace', () => {
+    expect(parseAcceptEncoding('gzip,br;q=0.5 , deflate ;q=0')).toEqual([
+      { encoding: 'gzip', q: 1 },
+      { encoding: 'br', q: 0.5 },
+      { encoding: 'deflate', q: 0 },
+    ])
+  })
+
+  it('should lower-case tokens and skip empty members', () => {
+    expect(parseAcceptEncoding('GZip,, ,*;Q=0.1')).toEqual([
+      { encoding: 'gzip', q: 1 },
+      { encoding: '*', q: 0.1 },
+    ])
+  })
+
+  it('should treat an invalid weight as a refusal', () => {
+    expect(parseAcceptEncoding('gzip;q=2, br;q=abc')).toEqual([
+      { encoding: 'gzip', q: 0 },
+      { encoding: 'br', q: 0 },
+    ])
+  })
+})
+
+describe('negotiateEncoding', () => {
+  const encodings = ['br', 'gzip', 'deflate'] as const
+
+  it('should not compress without an accept-encoding header', () => {
+    expect(negotiateEncoding(null, encodings)).toBe('identity')
+    expect(negotiateEncoding(undefined, encodings)).toBe('identity')
+  })
+
+  it('should only allow identity for an empty header', () => {
+    expect(negotiateEncoding('', encodings)).toBe('identity')
+  })
+
+  it('should tie-break equal weights by server order', () => {
+    expect(negotiateEncoding('deflate, gzip, br', encodings)).toBe('br')
+    expect(negotiateEncoding('deflate,gzip', encodings)).toBe('gzip')
+  })
+
+  it('should prefer the highest client weight', () => {
+    expect(negotiateEncoding('br;q=0.5, gzip;q=1', encodings)).toBe('gzip')
+  })
+
+  it('should honor explicit refusals', () => {
+    expect(negotiateEncoding('gzip;q=0', ['gzip'])).toBe('identity')
+    expect(negotiateEncoding('br;q=0, gzip', encodings)).toBe('gzip')
+  })
+
+  it('should resolve the wildcard to codings not listed explicitly', () => {
+    expect(negotiateEncoding('*', encodings)).toBe('br')
+    expect(negotiateEncoding('br;q=0, *', encodings)).toBe('gzip')
+    expect(negotiateEncoding('*;q=0.2, deflate;q=0.5', encodings)).toBe(
+      'deflate',
+    )
+  })
+
+  it('should prefer identity only when weighted higher explicitly', () => {
+    expect(negotiateEncoding('gzip;q=0.5', encodings)).toBe('gzip')
+    expect(negotiateEncoding('gzip;q=0.5, identity', encodings)).toBe(
+      'identity',
+    )
+  })
+
+  it('should return null when nothing is acceptable', () => {
+    expect(negotiateEncoding('identity;q=0', encodings)).toBeNull()
+    expect(negotiateEncoding('*;q=0', encodings)).toBeNull()
+    expect(negotiateEncoding('zstd, identity;q=0', ['gzip'])).toBeNull()
+  })
+
+  it('should fall back to identity for unsupported codings', () => {
+    expect(negotiateEncoding('zstd, compress', encodings)).toBe('identity')
+  })
+})
@@ -0,0 +1,278 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import zlib from 'node:zlib'
+import {
+  mkdtemp,
+  mkdir,
+  readFile,
+  rm,
+  stat,
+  utimes,
+  writeFile,
+} from 'node:fs/promises'
+import { existsSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { jsonResponse, responseLong } from './setup'
+import { precompress, serveStatic } from '../src'
+import { globToRegExp } from '../src/precompress'
+import { main } from '../src/cli'
+
+describe('globToRegExp', () => {
+  it('should match within a path segment', () => {
+    expect(globToRegExp('*.js').test('app.js')).toBe(true)
+    expect(globToRegExp('*.js').test('assets/app.js')).toBe(false)
+    expect(globToRegExp('app.?s').test('app.js')).toBe(true)
+  })
+
+  it('should match any number of directories', () => {
+    expect(globToRegExp('**/*.js').test('app.js')).toBe(true)
+    expect(globToRegExp('**/*.js').test('assets/vendor/app.js')).toBe(true)
+    expect(globToRegExp('assets/**').test('assets/vendor/app.js')).toBe(true)
+  })
+
+  it('should match alternatives', () => {
+    const pattern = globToRegExp('**/*.{js,css}')
+
+    expect(pattern.test('assets/app.css')).toBe(true)
+    expect(pattern.test('assets/app.html')).toBe(false)
+  })
+})
+
+describe('precompress', () => {
+  let root: string
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'vafast-precompress-'))
+    await mkdir(join(root, 'assets'))
+    await writeFile(join(root, 'index.html'), responseLong)
+    await writeFile(join(root, 'assets', 'app.js'), responseLong)
+    await writeFile(join(root, 'assets', 'data.json'), jsonResponse)
+    await writeFile(join(root, 'assets', 'logo.png'), responseLong)
+    await writeFile(join(root, 'small.txt'), 'tiny')
+  })
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true })
+  })
+
+  it('should write brotli and gzip sidecar files for compressible files', async () => {
+    const results = await precompress({ root })
+    const files = results.map(({ file }) => file).sort()
+
+    expect(files).toEqual(['assets/app.js', 'assets/data.json', 'index.html'])
+    expect(
+      zlib
+        .brotliDecompressSync(await readFile(join(root, 'assets/app.js.br')))
+        .toString('utf-8'),
+    ).toBe(responseLong)
+    expect(
+      zlib
+        .gunzipSync(await readFile(join(root, 'assets/app.js.gz')))
+        .toString('utf-8'),
+    ).toBe(responseLong)
+    expect(existsSync(join(root, 'assets/logo.png.br'))).toBe(false)
+    expect(existsSync(join(root, 'small.txt.br'))).toBe(false)
+  })
+
+  it('should report the compressed sizes', async () => {
+    const results = await precompress({ root, include: ['index.html'] })
+
+    expect(results).toHaveLength(1)
+    expect(results[0]?.size).toBe(Buffer.byteLength(responseLong))
+    expect(results[0]?.unchanged).toBe(false)
+    expect(results[0]?.encodings.br).toBe(
+      (await stat(join(root, 'index.html.br'))).size,
+    )
+    expect(results[0]?.encodings.br).toBeLessThan(results[0]?.size ?? 0)
+  })
+
+  it('should select files with include and exclude globs', async () => {
+    const results = await precompress({
+      root,
+      include: ['**/*.{js,png}'],
+      exclude: ['**/*.png'],
+    })
+
+    expect(results.map(({ file }) => file)).toEqual(['assets/app.js'])
+  })
+
+  it('should only write the requested encodings', async () => {
+    await precompress({ root, encodings: ['gzip'] })
+
+    expect(existsSync(join(root, 'index.html.gz'))).toBe(true)
+    expect(existsSync(join(root, 'index.html.br'))).toBe(false)
+  })
+
+  it('should not write sidecar files that are not smaller', async () => {
+    const random = Buffer.from(
+      Array.from({ length: 4096 }, () => Math.floor(Math.random() * 256)),
+    )
+    await writeFile(join(root, 'random.txt'), random)
+    await writeFile(join(root, 'random.txt.gz'), 'stale')
+
+    const results = await precompress({ root, include: ['random.txt'] })
+
+    expect(results[0]?.encodings).toEqual({ br: null, gzip: null })
+    expect(existsSync(join(root, 'random.txt.br'))).toBe(false)
+    expect(existsSync(join(root, 'random.txt.gz'))).toBe(false)
+  })
+
+  it('should skip files older than their sidecar files in mtime mode', async () => {
+    await precompress({ root })
+    await utimes(join(root, 'index.html.gz'), new Date(0), new Date(0))
+
+    const results = await precompress({ root, incremental: 'mtime' })
+    const index = results.find(({ file }) => file === 'index.html')
+    const app = results.find(({ file }) => file === 'assets/app.js')
+
+    expect(app?.unchanged).toBe(true)
+    expect(index?.unchanged).toBe(false)
+    expect(Object.keys(index?.encodings ?? {})).toEqual(['gzip'])
+  })
+
+  it('should skip files with an unchanged content hash in manifest mode', async () => {
+    const manifest = join(root, 'manifest.json')
+    await precompress({ root, incremental: 'manifest', manifest })
+
+    expect(JSON.parse(await readFile(manifest, 'utf-8'))).toHaveProperty(
+      'index.html',
+    )
+
+    await writeFile(join(root, 'index.html'), responseLong.repeat(2))
+    const results = await precompress({
+      root,
+      incremental: 'manifest',
+      manifest,
+    })
+
+    expect(
+      results.filter(({ unchanged }) => !unchanged).map(({ file }) => file),
+    ).toEqual(['index.html'])
+  })
+
+  it('should compress again in manifest mode when the options change', async () => {
+    const manifest = join(root, 'manifest.json')
+    const include = ['index.html']
+    await precompress({ root, include, incremental: 'manifest', manifest })
+
+    const results = await precompress({
+      root,
+      include,
+      zlibOptions: { level: 1 },
+      incremental: 'manifest',
+      manifest,
+    })
+
+    expect(results[0]?.encodings).toEqual({ gzip: expect.any(Number) })
+  })
+
+  it('should rewrite deleted sidecar files in manifest mode', async () => {
+    const manifest = join(root, 'manifest.json')
+    const include = ['index.html']
+    await precompress({
+      root,
+      include,
+      encodings: ['br'],
+      incremental: 'manifest',
+      manifest,
+    })
+
+    const added = await precompress({
+      root,
+      include,
+      incremental: 'manifest',
+      manifest,
+    })
+    expect(added[0]?.encodings).toEqual({ gzip: expect.any(Number) })
+    expect(existsSync(join(root, 'index.html.gz'))).toBe(true)
+
+    await rm(join(root, 'index.html.br'))
+    const rewritten = await precompress({
+      root,
+      include,
+      incremental: 'manifest',
+      manifest,
+    })
+    expect(rewritten[0]?.encodings).toEqual({ br: expect.any(Number) })
+    expect(existsSync(join(root, 'index.html.br'))).toBe(true)
+  })
+  it('should touch sidecar files of files rewritten with the same content', async () => {
+    const manifest = join(root, 'manifest.json')
+    const include = ['index.html']
+    await precompress({ root, include, incremental: 'manifest', manifest })
+
+    const past = new Date(Date.now() - 60_000)
+    await utimes(join(root, 'index.html.br'), past, past)
+    await utimes(join(root, 'index.html.gz'), past, past)
+    await writeFile(join(root, 'index.html'), responseLong)
+
+    const results = await precompress({
+      root,
+      include,
+      incremental: 'manifest',
+      manifest,
+    })
+    expect(results[0]?.unchanged).toBe(true)
+
+    const assets = serveStatic({ root })
+    const response = await assets({
+      req: new Request('http://localhost/index.html', {
+        headers: { 'accept-encoding': 'br' },
+      }),
+    })
+    expect(response.headers.get('Content-Encoding')).toBe('br')
+  })
+})
+
+describe('vafast-compress', () => {
+  let root: string
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'vafast-precompress-'))
+    await writeFile(join(root, 'index.html'), responseLong)
+    vi.spyOn(console, 'log').mockImplementation(() => undefined)
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await rm(root, { recursive: true, force: true })
+  })
+
+  it('should compress a directory and print the savings', async () => {
+    const code = await main([root, '--encodings', 'gzip'])
+    const output = vi
+      .mocked(console.log)
+      .mock.calls.map(([line]) => line)
+      .join('\n')
+
+    expect(code).toBe(0)
+    expect(existsSync(join(root, 'index.html.gz'))).toBe(true)
+    expect(output).toContain('index.html')
+    expect(output).toMatch(/gzip: .+ -> .+ \(-\d+\.\d%\)/)
+  })
+
+  it('should reject unsupported encodings', async () => {
+    const code = await main([root, '--encodings', 'deflate'])
+
+    expect(code).toBe(1)
+    expect(console.error).toHaveBeenCalledWith('Unsupported encoding: deflate')
+  })
+
+  it('should reject invalid numeric options', async () => {
+    expect(await main([root, '--concurrency', 'abc'])).toBe(1)
+    expect(await main([root, '-c', '0'])).toBe(1)
+    expect(await main([root, '--threshold', 'abc'])).toBe(1)
+    expect(await main([root, '--threshold=1.5'])).toBe(1)
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining('Invalid concurrency: abc'),
+    )
+    expect(existsSync(join(root, 'index.html.br'))).toBe(false)
+  })
+
+  it('should print the usage without a directory', async () => {
+    expect(await main([])).toBe(1)
+    expect(await main(['--help'])).toBe(0)
+  })
+})
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import { constants } from 'node:zlib'
+
+import { resolveTuning, withTuning } from '../src/profile'
+
+describe('resolveTuning', () => {
+  it('should choose the brotli mode from the content type', () => {
+    const modeOf = (contentType: string) =>
+      resolveTuning({}, contentType).brotliMode
+
+    expect(modeOf('text/html; charset=utf-8')).toBe(constants.BROTLI_MODE_TEXT)
+    expect(modeOf('application/json')).toBe(constants.BROTLI_MODE_TEXT)
+    expect(modeOf('application/ld+json')).toBe(constants.BROTLI_MODE_TEXT)
+    expect(modeOf('image/svg+xml')).toBe(constants.BROTLI_MODE_TEXT)
+    expect(modeOf('')).toBe(constants.BROTLI_MODE_TEXT)
+    expect(modeOf('font/woff2')).toBe(constants.BROTLI_MODE_FONT)
+    expect(modeOf('application/font-woff')).toBe(constants.BROTLI_MODE_FONT)
+    expect(modeOf('application/octet-stream')).toBe(
+      constants.BROTLI_MODE_GENERIC,
+    )
+  })
+
+  it('should round the size up to a power of 2', () => {
+    expect(resolveTuning({}, 'text/plain', 1000).sizeBits).toBe(10)
+    expect(resolveTuning({}, 'text/plain', 1024).sizeBits).toBe(10)
+    expect(resolveTuning({}, 'text/plain', 1025).sizeBits).toBe(11)
+    expect(resolveTuning({}, 'text/plain').sizeBits).toBeUndefined()
+  })
+
+  it('should find the options of the content type', () => {
+    const options = {
+      contentTypeOptions: { 'font/*': {}, 'application/json': {} },
+    }
+
+    expect(resolveTuning(options, 'font/woff2').contentType).toBe('font/*')
+    expect(resolveTuning(options, 'text/plain').contentType).toBeUndefined()
+    expect(
+      resolveTuning({ ...options, tuning: false }, 'application/json'),
+    ).toEqual({ contentType: 'application/json' })
+  })
+})
+
+describe('withTuning', () => {
+  it('should shrink the windows of small bodies', () => {
+    const tuned = withTuning(
+      {},
+      { brotliMode: constants.BROTLI_MODE_TEXT, sizeBits: 10 },
+    )
+
+    expect(tuned.brotliOptions?.params).toEqual({
+      [constants.BROTLI_PARAM_MODE]: constants.BROTLI_MODE_TEXT,
+      [constants.BROTLI_PARAM_SIZE_HINT]: 1024,
+      [constants.BROTLI_PARAM_LGWIN]: 10,
+    })
+    expect(tuned.zlibOptions).toEqual({ windowBits: 10, memLevel: 3 })
+  })
+
+  it('should keep the default windows of large bodies', () => {
+    const tuned = withTuning({}, { sizeBits: 30 })
+
+    expect(tuned.brotliOptions?.params?.[constants.BROTLI_PARAM_LGWIN]).toBe(
+      constants.BROTLI_DEFAULT_WINDOW,
+    )
+    expect(tuned.zlibOptions).toEqual({ windowBits: 15, memLevel: 8 })
+  })
+
+  it('should let the options and the content type options take precedence', () => {
+    const tuned = withTuning(
+      {
+        brotliOptions: {
+          params: {
+            [constants.BROTLI_PARAM_MODE]: constants.BROTLI_MODE_GENERIC,
+          },
+        },
+        zlibOptions: { level: 9, memLevel: 9 },
+        contentTypeOptions: {
+          'font/*': {
+            brotliOptions: {
+              params: { [constants.BROTLI_PARAM_QUALITY]: 11 },
+            },
+            zlibOptions: { level: 1 },
+          },
+        },
+      },
+      {
+        brotliMode: constants.BROTLI_MODE_FONT,
+        sizeBits: 12,
+        contentType: 'font/*',
+      },
+    )
+
+    expect(tuned.brotliOptions?.params).toEqual({
+      [constants.BROTLI_PARAM_MODE]: constants.BROTLI_MODE_GENERIC,
+      [constants.BROTLI_PARAM_SIZE_HINT]: 4096,
+      [constants.BROTLI_PARAM_LGWIN]: 12,
+      [constants.BROTLI_PARAM_QUALITY]: 11,
+    })
+    expect(tuned.zlibOptions).toEqual({
+      windowBits: 12,
+      memLevel: 9,
+      level: 1,
+    })
+  })
+})
@@ -0,0 +1,131 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import zlib from 'node:zlib'
+import { mkdtemp, mkdir, rm, utimes, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { jsonResponse, responseLong } from './setup'
+import { serveStatic } from '../src'
+
+const get = (path: string, headers: Record<string, string> = {}) => ({
+  req: new Request(`http://localhost${path}`, { headers }),
+})
+
+describe('serveStatic', () => {
+  let root: string
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), 'vafast-compress-'))
+    await mkdir(join(root, 'docs'))
+    await writeFile(join(root, 'app.js'), responseLong)
+    await writeFile(
+      join(root, 'app.js.br'),
+      zlib.brotliCompressSync(responseLong),
+    )
+    await writeFile(join(root, 'app.js.gz'), zlib.gzipSync(responseLong))
+    await writeFile(join(root, 'data.json'), jsonResponse)
+    await writeFile(join(root, 'docs', 'index.html'), responseLong)
+    await writeFile(join(root, 'stale.css'), responseLong)
+    await writeFile(join(root, 'stale.css.gz'), zlib.gzipSync('outdated'))
+    await utimes(join(root, 'stale.css.gz'), new Date(0), new Date(0))
+  })
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true })
+  })
+
+  it('should serve the brotli sidecar file', async () => {
+    const res = await serveStatic({ root })(
+      get('/app.js', { 'accept-encoding': 'gzip, br' }),
+    )
+    const body = await res.arrayBuffer()
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('Content-Type')).toBe(
+      'text/javascript; charset=utf-8',
+    )
+    expect(res.headers.get('Content-Encoding')).toBe('br')
+    expect(res.headers.get('Vary')).toBe('accept-encoding')
+    expect(res.headers.get('ETag')).toMatch(/^W\/".+-br"$/)
+    expect(res.headers.get('Content-Length')).toBe(String(body.byteLength))
+    expect(zlib.brotliDecompressSync(body).toString('utf-8')).toBe(responseLong)
+  })
+
+  it('should serve the gzip sidecar file when brotli is not accepted', async () => {
+    const res = await serveStatic({ root })(
+      get('/app.js', { 'accept-encoding': 'gzip' }),
+    )
+
+    expect(res.headers.get('Content-Encoding')).toBe('gzip')
+    expect(zlib.gunzipSync(await res.arrayBuffer()).toString('utf-8')).toBe(
+      responseLong,
+    )
+  })
+
+  it('should fall back to the uncompressed file', async () => {
+    const res = await serveStatic({ root })(
+      get('/data.json', { 'accept-encoding': 'br, gzip' }),
+    )
+
+    expect(res.headers.get('Content-Type')).toBe('application/json')
+    expect(res.headers.get('Content-Encoding')).toBeNull()
+    expect(await res.text()).toBe(jsonResponse)
+  })
+
+  it('should ignore sidecar files older than the original file', async () => {
+    const res = await serveStatic({ root })(
+      get('/stale.css', { 'accept-encoding': 'gzip' }),
+    )
+
+    expect(res.headers.get('Content-Encoding')).toBeNull()
+    expect(await res.text()).toBe(responseLong)
+  })
+
+  it('should compress on the fly when enabled', async () => {
+    const res = await serveStatic({ root, compress: true })(
+      get('/data.json', { 'accept-encoding': 'gzip' }),
+    )
+
+    expect(res.headers.get('Content-Encoding')).toBe('gzip')
+    expect(zlib.gunzipSync(await res.arrayBuffer()).toString('utf-8')).toBe(
+      jsonResponse,
+    )
+  })
+
+  it('should serve the index file of directories under the prefix', async () => {
+    const res = await serveStatic({ root, prefix: '/static' })(
+      get('/static/docs/'),
+    )
+
+    expect(res.headers.get('Content-Type')).toBe('text/html; charset=utf-8')
+    expect(await res.text()).toBe(responseLong)
+  })
+
+  it('should only serve paths under the prefix segment', async () => {
+    const handler = serveStatic({ root, prefix: '/app' })
+
+    expect((await handler(get('/app/data.json'))).status).toBe(200)
+    expect((await handler(get('/appdata.json'))).status).toBe(404)
+  })
+
+  it('should return 304 when If-None-Match matches', async () => {
+    const handler = serveStatic({ root })
+    const res = await handler(get('/app.js', { 'accept-encoding': 'br' }))
+    const res2 = await handler(
+      get('/app.js', {
+        'accept-encoding': 'br',
+        'if-none-match': res.headers.get('ETag') ?? '',
+      }),
+    )
+
+    expect(res2.status).toBe(304)
+    expect(res2.headers.get('Content-Encoding')).toBe('br')
+  })
+
+  it('should return 404 for missing files and paths outside of root', async () => {
+    const handler = serveStatic({ root })
+
+    expect((await handler(get('/missing.js'))).status).toBe(404)
+    expect((await handler(get('/..%2f..%2fetc%2fpasswd'))).status).toBe(404)
+  })
+})
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest'
+
+import { MemCache, createCompressionStats } from '../src'
+
+describe('createCompressionStats', () => {
+  it('should count compressed and skipped responses', () => {
+    const stats = createCompressionStats()
+
+    stats.onCompress({
+      encoding: 'br',
+      bytesIn: 1000,
+      bytesOut: 250,
+      duration: 3,
+      cached: false,
+      streamed: false,
+    })
+    stats.onCompress({
+      encoding: 'br',
+      bytesIn: 1000,
+      bytesOut: 250,
+      duration: 0.1,
+      cached: true,
+      streamed: false,
+    })
+    stats.onCompress({
+      encoding: 'gzip',
+      bytesIn: 400,
+      bytesOut: 300,
+      duration: 40,
+      streamed: true,
+    })
+    stats.onSkip('threshold')
+    stats.onSkip('threshold')
+    stats.onSkip('content-type')
+
+    const snapshot = stats.snapshot()
+
+    expect(snapshot.compressed).toEqual({ br: 2, gzip: 1 })
+    expect(snapshot.skipped).toEqual({ threshold: 2, 'content-type': 1 })
+    expect(snapshot.bytesIn).toEqual({ br: 2000, gzip: 400 })
+    expect(snapshot.bytesOut).toEqual({ br: 500, gzip: 300 })
+    expect(snapshot.cacheHits).toBe(1)
+    expect(snapshot.cacheMisses).toBe(1)
+    expect(snapshot.duration.count).toBe(3)
+    expect(snapshot.duration.counts.slice(0, 4)).toEqual([1, 1, 0, 0])
+    expect(snapshot.ratio.counts[2]).toBe(2)
+    expect(snapshot.ratio.counts[7]).toBe(1)
+  })
+
+  it('should return copies and reset the statistics', () => {
+    const stats = createCompressionStats()
+    stats.onSkip('filter')
+
+    const snapshot = stats.snapshot()
+    stats.onSkip('filter')
+    expect(snapshot.skipped.filter).toBe(1)
+
+    stats.reset()
+    expect(stats.snapshot().skipped).toEqual({})
+  })
+
+  it('should format Prometheus metrics', () => {
+    const stats = createCompressionStats({
+      prefix: 'app_compress',
+      durationBuckets: [5, 50],
+    })
+    stats.onCompress({
+      encoding: 'gzip',
+      bytesIn: 400,
+      bytesOut: 100,
+      duration: 20,
+      cached: false,
+      streamed: false,
+    })
+    stats.onSkip('no-encoding')
+
+    const metrics = stats.prometheus()
+
+    expect(metrics).toContain('# TYPE app_compress_responses_total counter')
+    expect(metrics).toContain('app_compress_responses_total{encoding="gzip"} 1')
+    expect(metrics).toContain(
+      'app_compress_skipped_total{reason="no-encoding"} 1',
+    )
+    expect(metrics).toContain(
+      'app_compress_bytes_out_total{encoding="gzip"} 100',
+    )
+    expect(metrics).toContain('app_compress_cache_misses_total 1')
+    expect(metrics).toContain('# TYPE app_compress_duration_seconds histogram')
+    expect(metrics).toContain(
+      'app_compress_duration_seconds_bucket{le="0.005"} 0',
+    )
+    expect(metrics).toContain(
+      'app_compress_duration_seconds_bucket{le="0.05"} 1',
+    )
+    expect(metrics).toContain(
+      'app_compress_duration_seconds_bucket{le="+Inf"} 1',
+    )
+    expect(metrics).toContain('app_compress_duration_seconds_sum 0.02')
+    expect(metrics).toContain('app_compress_ratio_bucket{le="0.3"} 1')
+    expect(metrics.endsWith('\n')).toBe(true)
+  })
+
+  it('should export the cache size and evictions', () => {
+    const cache = new MemCache({ maxEntries: 1 })
+    cache.set('a', Buffer.alloc(10))
+    cache.set('b', Buffer.alloc(20))
+
+    const metrics = createCompressionStats({ cache }).prometheus()
+
+    expect(metrics).toContain('vafast_compress_cache_entries 1')
+    expect(metrics).toContain('vafast_compress_cache_bytes 20')
+    expect(metrics).toContain('vafast_compress_cache_evictions_total 1')
+  })
+
+  it('should serve the metrics', async () => {
+    const stats = createCompressionStats()
+    const res = stats.handler({ req: new Request('http://localhost/metrics') })
+
+    expect(res.headers.get('Content-Type')).toBe(
+      'text/plain; version=0.0.4; charset=utf-8',
+    )
+    expect(await res.text()).toBe(stats.prometheus())
+  })
+})
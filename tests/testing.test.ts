@@ -0,0 +1,177 @@
+import { describe, expect, it } from 'vitest'
+import { AssertionError } from 'node:assert'
+import { createHash } from 'node:crypto'
+import zlib from 'node:zlib'
+import { Server, defineRoute, defineRoutes } from 'vafast'
+
+import { responseLong, responseShort } from './setup'
+import compression, { isDictionaryEncodingSupported } from '../src'
+import { isZstdSupported } from '../src/compression-stream'
+import { dictionaryHeader } from '../src/dictionary'
+import {
+  decodeResponse,
+  expectCompressed,
+  expectNotCompressed,
+  requestWithEncoding,
+} from '../src/testing'
+
+const dictionary = Buffer.from(responseShort.repeat(3))
+const sha256 = (content: Uint8Array) =>
+  createHash('sha256').update(content).digest()
+
+const server = new Server(
+  defineRoutes([
+    defineRoute({
+      method: 'GET',
+      path: '/',
+      handler: () => responseLong,
+      middleware: [compression()],
+    }),
+  ]),
+)
+
+describe('requestWithEncoding', () => {
+  it('should set the accept-encoding header', () => {
+    const request = requestWithEncoding('gzip', '/users', {
+      headers: { 'x-test': '1' },
+    })
+
+    expect(request.url).toBe('http://localhost/users')
+    expect(request.headers.get('accept-encoding')).toBe('gzip')
+    expect(request.headers.get('x-test')).toBe('1')
+  })
+})
+
+describe('decodeResponse', () => {
+  it.each([
+    ['br', zlib.brotliCompressSync],
+    ['gzip', zlib.gzipSync],
+    ['x-gzip', zlib.gzipSync],
+    ['deflate', zlib.deflateSync],
+  ] as const)('should decode %s bodies', async (coding, compress) => {
+    const response = new Response(new Uint8Array(compress(responseShort)), {
+      headers: { 'Content-Encoding': coding },
+    })
+
+    expect((await decodeResponse(response)).toString()).toBe(responseShort)
+    expect(await response.arrayBuffer()).toBeInstanceOf(ArrayBuffer)
+  })
+
+  it.runIf(isZstdSupported)('should decode zstd bodies', async () => {
+    const response = new Response(
+      new Uint8Array(zlib.zstdCompressSync(responseShort)),
+      { headers: { 'Content-Encoding': 'zstd' } },
+    )
+
+    expect((await decodeResponse(response)).toString()).toBe(responseShort)
+  })
+
+  it.each([
+    [
+      'dcb',
+      (body: string) =>
+        zlib.brotliCompressSync(body, { dictionary } as zlib.BrotliOptions),
+    ],
+    [
+      'dcz',
+      (body: string) =>
+        zlib.zstdCompressSync(body, { dictionary } as zlib.ZstdOptions),
+    ],
+  ] as const)(
+    'should decode %s bodies with the dictionary',
+    async (coding, compress) => {
+      if (!isDictionaryEncodingSupported(coding)) {
+        return
+      }
+      const body = Buffer.concat([
+        dictionaryHeader(coding, sha256(dictionary)),
+        compress(responseShort),
+      ])
+      const response = () =>
+        new Response(new Uint8Array(body), {
+          headers: { 'Content-Encoding': coding },
+        })
+
+      expect(
+        (await decodeResponse(response(), { dictionary })).toString(),
+      ).toBe(responseShort)
+      await expect(decodeResponse(response())).rejects.toThrow(TypeError)
+    },
+  )
+
+  it.each(['dcb', 'dcz'] as const)(
+    'should reject %s bodies of another dictionary',
+    async (coding) => {
+      const response = new Response(
+        new Uint8Array(
+          Buffer.concat([
+            dictionaryHeader(coding, sha256(Buffer.from('other'))),
+            Buffer.from('body'),
+          ]),
+        ),
+        { headers: { 'Content-Encoding': coding } },
+      )
+
+      await expect(decodeResponse(response, { dictionary })).rejects.toThrow(
+        /header of the dictionary/u,
+      )
+    },
+  )
+
+  it('should decode stacked encodings in reverse order', async () => {
+    const body = zlib.brotliCompressSync(zlib.gzipSync(responseShort))
+    const response = new Response(new Uint8Array(body), {
+      headers: { 'Content-Encoding': 'gzip, br' },
+    })
+
+    expect((await decodeResponse(response)).toString()).toBe(responseShort)
+  })
+
+  it('should reject unknown encodings', async () => {
+    const response = new Response('body', {
+      headers: { 'Content-Encoding': 'compress' },
+    })
+
+    await expect(decodeResponse(response)).rejects.toThrow(TypeError)
+  })
+})
+
+describe('expectCompressed', () => {
+  it('should pass for compressed responses', async () => {
+    const res = await server.fetch(requestWithEncoding('gzip'))
+    const body = await expectCompressed(res, 'gzip', responseLong)
+
+    expect(body.toString()).toBe(responseLong)
+  })
+
+  it('should fail for another encoding or body', async () => {
+    const res = await server.fetch(requestWithEncoding('gzip'))
+
+    await expect(expectCompressed(res, 'br')).rejects.toThrow(AssertionError)
+    await expect(expectCompressed(res, 'gzip', 'other')).rejects.toThrow(
+      AssertionError,
+    )
+  })
+
+  it('should fail without a Vary header', async () => {
+    const res = new Response(new Uint8Array(zlib.gzipSync(responseShort)), {
+      headers: { 'Content-Encoding': 'gzip' },
+    })
+
+    await expect(expectCompressed(res, 'gzip')).rejects.toThrow(/Vary/u)
+  })
+})
+
+describe('expectNotCompressed', () => {
+  it('should pass for uncompressed responses', async () => {
+    const res = await server.fetch(requestWithEncoding('identity'))
+
+    await expectNotCompressed(res, responseLong)
+  })
+
+  it('should fail for compressed responses', async () => {
+    const res = await server.fetch(requestWithEncoding('br'))
+
+    await expect(expectNotCompressed(res)).rejects.toThrow(AssertionError)
+  })
+})
@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import zlib from 'node:zlib'
+
+import { responseLong } from './setup'
+import { createWorkerPool } from '../src/worker-pool'
+import type { WorkerPool } from '../src/worker-pool'
+
+describe('createWorkerPool', () => {
+  let pool: WorkerPool | undefined
+  const input = new TextEncoder().encode(responseLong)
+
+  afterEach(async () => {
+    await pool?.close()
+    pool = undefined
+  })
+
+  it('should compress buffers in a worker thread', async () => {
+    pool = createWorkerPool({ size: 1 })
+    const [br, gzip] = await Promise.all([
+      pool.compress('br', input),
+      pool.compress('gzip', input, { level: 9 }),
+    ])
+
+    expect(zlib.brotliDecompressSync(br as Buffer).toString('utf-8')).toBe(
+      responseLong,
+    )
+    expect(zlib.gunzipSync(gzip as Buffer).toString('utf-8')).toBe(responseLong)
+    expect(gzip).toEqual(zlib.gzipSync(input, { level: 9 }))
+  })
+
+  it('should refuse tasks once the queue is full', async () => {
+    pool = createWorkerPool({ size: 1, maxQueue: 1 })
+    const running = pool.compress('gzip', input)
+    const queued = pool.compress('gzip', input)
+
+    // The first task is running, the second one fills the queue
+    expect(pool.compress('gzip', input)).toBeUndefined()
+    await expect(Promise.all([running, queued])).resolves.toHaveLength(2)
+    await expect(pool.compress('gzip', input)).resolves.toBeInstanceOf(Buffer)
+  })
+
+  it('should reject tasks failing in the worker', async () => {
+    pool = createWorkerPool({ size: 1 })
+
+    await expect(pool.compress('unknown' as any, input)).rejects.toThrow()
+    await expect(pool.compress('gzip', input)).resolves.toBeInstanceOf(Buffer)
+  })
+
+  it('should reject queued tasks when closed', async () => {
+    pool = createWorkerPool({ size: 1 })
+    const tasks = Promise.allSettled([
+      pool.compress('br', input),
+      pool.compress('br', input),
+    ])
+
+    await pool.close()
+
+    for (const task of await tasks) {
+      expect(task.status).toBe('rejected')
+      expect((task as PromiseRejectedResult).reason.message).toMatch('closed')
+    }
+  })
+})